@@ -1,13 +1,39 @@
-import { CheckCircle, AlertTriangle, XCircle, Thermometer, Clock, Truck } from 'lucide-react';
+import { useState } from 'react';
+import { CheckCircle, AlertTriangle, XCircle, Thermometer, Clock, Truck, Droplets, Snowflake, Download, List, Grid3x3, ChevronDown, Wind } from 'lucide-react';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { toast } from '@/components/ui/use-toast';
 import { Vegetable } from './VegetableInput';
+import { EthyleneSimulationChart } from './EthyleneSimulationChart';
+import { CompatibilityMatrixView } from './CompatibilityMatrixView';
+import { FindingMitigations } from './FindingMitigations';
+import { ConflictResolutionAssistant } from './ConflictResolutionAssistant';
+import { ProduceCatalog, formatPeso, getFreezingPoint, getHumidityRange } from '@/lib/produceCatalog';
+import { TruckSize, getLineWeightKg } from '@/lib/loadUnits';
+import { UNCOOLED_CARGO_TEMP_C, simulateEthylene } from '@/lib/ethyleneSimulation';
+import { applyMaturity } from '@/lib/maturity';
+import { AtmospherePlan, AtmosphereZone, formatAtmosphere, recommendAtmosphere } from '@/lib/atmosphere';
+import { SetpointLossCause, SetpointPlan, chillingLossFraction, planSetpoint } from '@/lib/setpointOptimizer';
+import { getLineLabel, uniqueProduceNames } from '@/lib/lots';
+import { ConflictType, EvaluationOptions, Finding, Severity, buildCompatibilityMatrix, evaluateLoad, getRule, serializeMatrixCSV } from '@/lib/compatibilityRules';
+import { TOP_ICING_ALLOWANCE_C, TREATMENTS, MitigationId, TreatmentId } from '@/lib/mitigations';
+import type { ResolutionAction } from '@/lib/conflictResolution';
+import { DeparturePlan, TRAVEL_TIME_LABELS } from '@/lib/departurePlanner';
 
 interface CompatibilityResult {
+  id: string;
   pair: string;
   compatible: boolean;
+  blocking: boolean; // some open finding blocks the load under the scenario's policy
   reason: string;
-  severity: 'low' | 'medium' | 'high';
+  severity: Severity;
+  conflicts: ConflictType[];
+  ruleIds: string[];
+  findings: Finding[]; // open findings with evidence and ranked mitigations
+  resolved: Finding[]; // cleared by an applied mitigation
 }
 
 interface TransportRecommendation {
@@ -16,63 +42,81 @@ interface TransportRecommendation {
   humidity: string;
   ventilation: boolean;
   separation: string[];
+  treatments: string[]; // active scenario treatments and the produce they cover
+  setpointPlan?: SetpointPlan; // set when ideal temperature ranges do not overlap
+  atmosphere: AtmospherePlan; // CA/MAP settings for the load and each compartment
 }
 
-type TravelTime = 'early_morning' | 'daytime' | 'evening' | 'night';
+type TruckType = 'ambient' | 'refrigerated' | 'ventilated';
+
+interface ColdInjuryWarning {
+  name: string;
+  risk: 'chilling' | 'freezing';
+  threshold: number; // °C
+  setpoint: number; // lowest cargo temperature the truck will hold, °C
+  severity: Severity;
+  shelfLifeLossDays: number;
+  impact: string;
+}
 
 interface CompatibilityAnalysisProps {
   vegetables: Vegetable[];
-  // bestTravelTime and onChangeBestTravelTime kept for backward compatibility but no longer user-controlled
-  bestTravelTime?: TravelTime;
-  onChangeBestTravelTime?: (value: TravelTime) => void;
   routeDurationHours?: number;
-  ambientDeltaC?: number;
+  truckType?: TruckType;
+  setpointC?: number | null; // planner override for the refrigerated setpoint
+  truckSize?: TruckSize;
+  truckCount?: number; // planner's truck count; unset uses as many as the load needs
+  evaluation?: EvaluationOptions; // applied mitigations and scenario treatments
+  onApplyMitigation?: (key: string, mitigation: MitigationId | null) => void;
+  catalog?: ProduceCatalog; // substitutes offered by the resolution assistant
+  onApplyResolution?: (action: ResolutionAction) => void;
+  departurePlan?: DeparturePlan; // lowest-loss departure from the region's hourly temperature profile
 }
 
-// Compatibility logic based on ethylene production/sensitivity and temperature requirements
-function analyzeCompatibility(vegetables: Vegetable[]): CompatibilityResult[] {
-  const results: CompatibilityResult[] = [];
-
-  for (let i = 0; i < vegetables.length; i++) {
-    for (let j = i + 1; j < vegetables.length; j++) {
-      const veg1 = vegetables[i];
-      const veg2 = vegetables[j];
-
-      // Check ethylene compatibility
-      const ethyleneConflict =
-        (veg1.ethyleneProduction === 'high' && veg2.ethyleneSensitivity === 'high') ||
-        (veg2.ethyleneProduction === 'high' && veg1.ethyleneSensitivity === 'high');
-
-      // Check temperature compatibility (must overlap)
-      const tempConflict = veg1.idealTemp.max < veg2.idealTemp.min || veg2.idealTemp.max < veg1.idealTemp.min;
-
-      let compatible = true;
-      let reason = 'Compatible for transport';
-      let severity: 'low' | 'medium' | 'high' = 'low';
-
-      if (ethyleneConflict && tempConflict) {
-        compatible = false;
-        reason = 'Ethylene conflict + temperature mismatch';
-        severity = 'high';
-      } else if (ethyleneConflict) {
-        compatible = false;
-        reason = 'Ethylene gas will cause premature ripening';
-        severity = 'high';
-      } else if (tempConflict) {
-        compatible = false;
-        reason = 'Incompatible temperature requirements';
-        severity = 'medium';
-      }
-
-      results.push({ pair: `${veg1.name} + ${veg2.name}`, compatible, reason, severity });
-    }
+// Pair results as shown in the list, built from the shared rule engine
+function analyzeCompatibility(lines: Vegetable[], evaluation: EvaluationOptions): CompatibilityResult[] {
+  return evaluateLoad(lines, evaluation).map(({ a, b, pair, findings, resolved, compatible, blocking, severity }) => ({
+    id: `${a.id}:${b.id}`,
+    pair,
+    compatible,
+    blocking,
+    reason:
+      findings.length === 0
+        ? 'Compatible for transport'
+        : findings.length === 1
+        ? findings[0].reason
+        : findings.map((finding) => getRule(finding.type)?.label ?? finding.type).join(' + '),
+    severity,
+    conflicts: findings.map((finding) => finding.type),
+    ruleIds: [...findings, ...resolved].map((finding) => finding.ruleId),
+    findings,
+    resolved,
+  }));
+}
+
+// Humidity setpoint for the load: the shared band when all ranges overlap, otherwise a
+// weight-weighted compromise around the average midpoint
+function getHumidityRecommendation(vegetables: Vegetable[]): { humidity: string; conflict: boolean } {
+  const ranges = vegetables.map((v) => getHumidityRange(v));
+  const minRH = Math.max(...ranges.map((h) => h.min));
+  const maxRH = Math.min(...ranges.map((h) => h.max));
+  if (minRH <= maxRH) {
+    return { humidity: minRH === maxRH ? `${minRH}%` : `${minRH}-${maxRH}%`, conflict: false };
   }
 
-  return results;
+  const weights = vegetables.map((v) => Math.max(getLineWeightKg(v), 0));
+  const totalKg = weights.reduce((sum, kg) => sum + kg, 0);
+  const weightedMid =
+    vegetables.reduce((sum, v, i) => sum + ((ranges[i].min + ranges[i].max) / 2) * (totalKg > 0 ? weights[i] : 1), 0) /
+    (totalKg > 0 ? totalKg : vegetables.length);
+  const low = Math.max(0, Math.round(weightedMid - 2.5));
+  const high = Math.min(100, Math.round(weightedMid + 2.5));
+  return { humidity: `${low}-${high}% (compromise)`, conflict: true };
 }
 
-// Generate transport recommendations based on vegetable requirements
-function getTransportRecommendation(vegetables: Vegetable[]): TransportRecommendation {
+// Generate transport recommendations based on vegetable requirements, after scenario treatments
+function getTransportRecommendation(lines: Vegetable[], routeDurationHours: number, evaluation: EvaluationOptions = {}): TransportRecommendation {
+  const vegetables = lines.map(applyMaturity);
   if (vegetables.length === 0) {
     return {
       type: 'ventilated',
@@ -80,50 +124,247 @@ function getTransportRecommendation(vegetables: Vegetable[]): TransportRecommend
       humidity: '85-90%',
       ventilation: true,
       separation: [],
+      treatments: [],
+      atmosphere: recommendAtmosphere([]),
     };
   }
+  const treatmentsOf = (v: Vegetable) => evaluation.treatments?.[v.id] ?? [];
 
-  // Find temperature range that works for all vegetables
+  // Find temperature range that works for all vegetables; top-iced lots stay cold under their ice
   const minTemp = Math.max(...vegetables.map((v) => v.idealTemp.min));
-  const maxTemp = Math.min(...vegetables.map((v) => v.idealTemp.max));
+  const maxTemp = Math.min(...vegetables.map((v) => v.idealTemp.max + (treatmentsOf(v).includes('top_icing') ? TOP_ICING_ALLOWANCE_C : 0)));
 
-  // Check for high ethylene producers that need separation
-  const highEthyleneProducers = vegetables.filter((v) => v.ethyleneProduction === 'high');
-  const highEthyleneSensitive = vegetables.filter((v) => v.ethyleneSensitivity === 'high');
+  // Separation follows the findings still open after treatments and mitigations
+  const open = evaluateLoad(lines, evaluation).flatMap((e) => e.findings.map((f) => ({ ...f, a: e.a, b: e.b })));
+  const sides = (type: ConflictType, first: (a: Vegetable, b: Vegetable) => boolean) => {
+    const pairs = open.filter((f) => f.type === type).map((f) => (first(f.a, f.b) ? [f.a, f.b] : [f.b, f.a]));
+    return [pairs.map(([x]) => x), pairs.map(([, y]) => y)];
+  };
+  const [highEthyleneProducers, highEthyleneSensitive] = sides('ethylene', (a) => a.ethyleneProduction === 'high');
+  const [odorEmitters, odorAbsorbers] = sides('odor', (a) => Boolean(a.odorEmitter));
+  const [dryStorage, humidStorage] = sides('humidity', (a, b) => getHumidityRange(a).max <= getHumidityRange(b).max);
+
+  // Lots in MAP bags or under ice carry their own humidity, so they drop out of the air setpoint
+  const airHumidity = vegetables.filter((v) => !treatmentsOf(v).some((t) => t === 'map' || t === 'top_icing'));
+  const humidityRec = getHumidityRecommendation(airHumidity.length > 0 ? airHumidity : vegetables);
 
-  const needsSeparation = highEthyleneProducers.length > 0 && highEthyleneSensitive.length > 0;
+  // With no shared band, hold the setpoint that loses the least produce value over the trip
+  const setpointPlan = maxTemp >= minTemp ? undefined : planSetpoint(lines, routeDurationHours, evaluation);
+
+  const covered = (treatment: TreatmentId) => uniqueProduceNames(vegetables.filter((v) => treatmentsOf(v).includes(treatment)));
 
   return {
     type: minTemp <= 4 ? 'refrigerated' : 'controlled_atmosphere',
-    temperature: { min: Math.max(0, minTemp), max: maxTemp > minTemp ? maxTemp : minTemp + 2 },
-    humidity: '85-95%',
+    temperature: setpointPlan
+      ? { min: setpointPlan.compromise.setpoint, max: setpointPlan.compromise.setpoint }
+      : { min: Math.max(0, minTemp), max: Math.max(0, maxTemp) },
+    humidity: humidityRec.humidity,
     ventilation: true,
-    separation: needsSeparation
-      ? [`Separate: ${highEthyleneProducers.map((v) => v.name).join(', ')}`, `From: ${highEthyleneSensitive.map((v) => v.name).join(', ')}`]
-      : [],
+    separation: [
+      ...(highEthyleneProducers.length > 0
+        ? [`Separate: ${uniqueProduceNames(highEthyleneProducers).join(', ')}`, `From: ${uniqueProduceNames(highEthyleneSensitive).join(', ')}`]
+        : []),
+      ...(dryStorage.length > 0
+        ? [`Keep dry: ${uniqueProduceNames(dryStorage).join(', ')}`, `Away from humid: ${uniqueProduceNames(humidStorage).join(', ')}`]
+        : []),
+      ...(odorEmitters.length > 0
+        ? [`Isolate odors: ${uniqueProduceNames(odorEmitters).join(', ')}`, `From: ${uniqueProduceNames(odorAbsorbers).join(', ')}`]
+        : []),
+    ],
+    treatments: (Object.keys(TREATMENTS) as TreatmentId[])
+      .filter((t) => covered(t).length > 0)
+      .map((t) => `${TREATMENTS[t].label}: ${covered(t).length === vegetables.length ? 'whole load' : covered(t).join(', ')}`),
+    setpointPlan,
+    atmosphere: recommendAtmosphere(lines, evaluation),
   };
 }
 
-export function CompatibilityAnalysis({ vegetables, bestTravelTime = 'early_morning', onChangeBestTravelTime, routeDurationHours = 3, ambientDeltaC = 4 }: CompatibilityAnalysisProps) {
-  const compatibilityResults = analyzeCompatibility(vegetables);
-  const transportRec = getTransportRecommendation(vegetables);
-
-  // Automatically determine best travel time based on combined factors
-  const computeBestTravelTime = (vegs: Vegetable[]): TravelTime => {
-    if (vegs.length === 0) return 'early_morning';
-    const anyCoolSensitive = vegs.some(v => v.idealTemp.max <= 10 || v.idealTemp.min <= 5);
-    const anyHighEthylene = vegs.some(v => v.ethyleneProduction === 'high');
-    const anyHighSensitive = vegs.some(v => v.ethyleneSensitivity === 'high');
-    // Cooler periods reduce respiration and ethylene effects
-    if (anyCoolSensitive || (anyHighEthylene && anyHighSensitive)) return 'night';
-    // Long routes and larger ambient swings favor cooler windows
-    if (routeDurationHours >= 6 || ambientDeltaC >= 5) return 'night';
-    if (anyHighSensitive || anyHighEthylene) return 'early_morning';
-    // Default to cooler start of day for most cases
-    return 'early_morning';
-  };
+// Chilling and freezing checks only apply to refrigerated trucks; ambient and ventilated
+// cargo stays near outside air, which does not reach these thresholds in lowland routes.
+function checkColdInjury(
+  lines: Vegetable[],
+  recommendation: TransportRecommendation,
+  truckType: TruckType,
+  routeDurationHours: number,
+  setpointOverride?: number | null
+): ColdInjuryWarning[] {
+  if (truckType !== 'refrigerated') return [];
+  const vegetables = lines.map(applyMaturity);
+  const setpoint = setpointOverride ?? recommendation.temperature.min;
+  const warnings: ColdInjuryWarning[] = [];
 
-  const recommendedTravelTime = computeBestTravelTime(vegetables);
+  vegetables.forEach((v) => {
+    const freezingPoint = getFreezingPoint(v);
+    if (setpoint <= freezingPoint) {
+      warnings.push({
+        name: getLineLabel(v, vegetables),
+        risk: 'freezing',
+        threshold: freezingPoint,
+        setpoint,
+        severity: 'high',
+        shelfLifeLossDays: v.shelfLife,
+        impact: 'Ice crystal damage; tissue collapses and turns translucent on thawing. Expect the lot to be unsaleable.',
+      });
+      return;
+    }
+    if (setpoint - freezingPoint < 0.5) {
+      warnings.push({
+        name: getLineLabel(v, vegetables),
+        risk: 'freezing',
+        threshold: freezingPoint,
+        setpoint,
+        severity: 'low',
+        shelfLifeLossDays: 0,
+        impact: 'Within 0.5°C of freezing. Keep cartons away from the evaporator outlet to avoid freeze spots.',
+      });
+    }
+
+    if (v.chillingThreshold === undefined || setpoint >= v.chillingThreshold) return;
+    const degreesBelow = v.chillingThreshold - setpoint;
+    const lossFraction = chillingLossFraction(degreesBelow, routeDurationHours);
+    const severity: Severity = degreesBelow >= 5 ? 'high' : degreesBelow >= 2 ? 'medium' : 'low';
+    warnings.push({
+      name: getLineLabel(v, vegetables),
+      risk: 'chilling',
+      threshold: v.chillingThreshold,
+      setpoint,
+      severity,
+      shelfLifeLossDays: Math.round(v.shelfLife * lossFraction * 10) / 10,
+      impact:
+        severity === 'high'
+          ? 'Pitting, water-soaked patches and rapid decay once back at ambient temperature.'
+          : severity === 'medium'
+          ? 'Surface pitting, discoloration and uneven ripening likely.'
+          : 'Mild risk; symptoms may show after a few days at market.',
+    });
+  });
+
+  return warnings;
+}
+
+const CAUSE_LABELS: Record<SetpointLossCause, string> = {
+  none: 'Within range',
+  chilling: 'Chilling injury',
+  freezing: 'Freezing',
+  warm: 'Faster decay',
+};
+
+// Per-item loss at the compromise setpoint next to the cost of splitting the load into zones
+function SetpointComparison({ plan }: { plan: SetpointPlan }) {
+  const { compromise, split, splitLoss } = plan;
+  return (
+    <div className="mt-4 pt-4 border-t border-border space-y-3">
+      <div>
+        <h4 className="text-sm font-medium text-foreground">Compromise setpoint {compromise.setpoint}°C</h4>
+        <p className="text-xs text-muted-foreground">
+          No single temperature suits every item. This setpoint loses the least produce value over the trip, weighted by quantity and price.
+        </p>
+      </div>
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left text-muted-foreground">
+            <th className="font-medium py-1">Item</th>
+            <th className="font-medium py-1">Effect</th>
+            <th className="font-medium py-1 text-right">Shelf life lost</th>
+            <th className="font-medium py-1 text-right">Value lost</th>
+          </tr>
+        </thead>
+        <tbody>
+          {compromise.items.map((item) => (
+            <tr key={item.id} className="border-t border-border">
+              <td className="py-1 text-foreground">{item.name}</td>
+              <td className={`py-1 ${item.cause === 'none' ? 'text-muted-foreground' : 'text-warning-orange'}`}>{CAUSE_LABELS[item.cause]}</td>
+              <td className="py-1 text-right">{(item.lossFraction * 100).toFixed(1)}%</td>
+              <td className="py-1 text-right">{formatPeso(item.lossValue)}</td>
+            </tr>
+          ))}
+          <tr className="border-t border-border font-medium">
+            <td className="py-1" colSpan={3}>Total at {compromise.setpoint}°C</td>
+            <td className="py-1 text-right">{formatPeso(compromise.totalLoss)}</td>
+          </tr>
+        </tbody>
+      </table>
+      {split.length > 1 && (
+        <p className={`text-xs p-2 rounded ${splitLoss < compromise.totalLoss ? 'bg-success-green-light' : 'bg-muted'} text-muted-foreground`}>
+          Split into {split.length} compartments at {split.map((zone) => `${zone.setpoint}°C`).join(' / ')}: {formatPeso(splitLoss)} expected loss
+          {splitLoss < compromise.totalLoss
+            ? `, saving ${formatPeso(compromise.totalLoss - splitLoss)} over the single setpoint.`
+            : ', no better than the single setpoint.'}
+        </p>
+      )}
+    </div>
+  );
+}
+
+// Per-compartment CA settings when the load is split, plus items at risk from high CO2
+function AtmosphereDetails({ plan }: { plan: AtmospherePlan }) {
+  const { load, zones, flags } = plan;
+  const showZones = zones.length > 1 && zones.some((zone) => zone.setting.controlled);
+  if (!showZones && flags.length === 0 && load.limitedBy.length === 0 && !load.setting.controlled) return null;
+  const notes = (zone: AtmosphereZone) =>
+    [
+      zone.limitedBy.length > 0 && `limited by ${zone.limitedBy.join(', ')}`,
+      zone.setting.controlled && zone.withoutBenefit.length > 0 && `no benefit for ${zone.withoutBenefit.join(', ')}`,
+    ].filter(Boolean);
+  return (
+    <div className="mt-4 pt-4 border-t border-border space-y-2">
+      <h4 className="text-sm font-medium text-foreground">Controlled atmosphere</h4>
+      {showZones ? (
+        zones.map((zone) => (
+          <p key={zone.zone} className="text-xs text-muted-foreground">
+            <span className="text-foreground">Zone {zone.zone}</span> ({zone.names.join(', ')}): {formatAtmosphere(zone.setting)}
+            {notes(zone).length > 0 && ` — ${notes(zone).join('; ')}`}
+          </p>
+        ))
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          Whole load: {formatAtmosphere(load.setting)}
+          {notes(load).length > 0 && ` — ${notes(load).join('; ')}`}
+        </p>
+      )}
+      {flags.map((flag) => (
+        <p key={`${flag.id}:${flag.source}`} className="text-xs text-muted-foreground bg-error-red-light p-2 rounded">
+          <span className="text-foreground font-medium">{flag.name}</span>: {flag.injury} above {flag.co2Max}% CO₂.{' '}
+          {flag.source === 'map'
+            ? `MAP bags build up about ${flag.exposurePct}% CO₂; use perforated liners instead.`
+            : `Its zone-mates want ${flag.exposurePct}% CO₂ or more; keep the zone at ${flag.co2Max}% or move it.`}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+export function CompatibilityAnalysis({ vegetables, routeDurationHours = 3, truckType = 'refrigerated', setpointC = null, truckSize = 'medium', truckCount, evaluation = {}, onApplyMitigation, catalog, onApplyResolution, departurePlan }: CompatibilityAnalysisProps) {
+  const compatibilityResults = analyzeCompatibility(vegetables, evaluation);
+  const transportRec = getTransportRecommendation(vegetables, routeDurationHours, evaluation);
+  const coldInjuryWarnings = checkColdInjury(vegetables, transportRec, truckType, routeDurationHours, setpointC);
+  const coldCheckSetpoint = setpointC ?? transportRec.temperature.min;
+  // Past about six lines the pair list gets long, so larger loads open on the matrix
+  const [view, setView] = useState<'list' | 'matrix'>(vegetables.length > 6 ? 'matrix' : 'list');
+  const ethyleneSimulation = simulateEthylene(
+    vegetables,
+    truckType,
+    truckSize,
+    truckCount,
+    routeDurationHours,
+    truckType === 'refrigerated' ? coldCheckSetpoint : UNCOOLED_CARGO_TEMP_C,
+    evaluation.treatments
+  );
+
+  const exportMatrix = () => {
+    try {
+      const blob = new Blob([serializeMatrixCSV(buildCompatibilityMatrix(vegetables, evaluation))], { type: 'text/csv;charset=utf-8;' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = 'shelflife_compatibility_matrix.csv';
+      a.click();
+      URL.revokeObjectURL(url);
+      toast({ title: 'Exported', description: 'Compatibility matrix downloaded as CSV.' });
+    } catch (e) {
+      toast({ title: 'Export failed', description: 'Could not generate the matrix file.' });
+    }
+  };
 
   if (vegetables.length === 0) {
     return (
@@ -149,42 +390,93 @@ export function CompatibilityAnalysis({ vegetables, bestTravelTime = 'early_morn
     <div className="space-y-6">
       {/* Compatibility Results */}
       <Card className="p-6">
-        <h3 className="text-lg font-semibold mb-4 text-foreground flex items-center gap-2">
-          <AlertTriangle className="w-5 h-5" />
-          Compatibility Analysis
-        </h3>
-
-        <div className="space-y-3">
-          {compatibilityResults.map((result, index) => (
-            <div
-              key={index}
-              className={`flex items-center justify-between p-3 rounded-lg border ${
-                result.compatible
-                  ? 'bg-compatible-green/10 border-compatible-green/20'
-                  : result.severity === 'high'
-                  ? 'bg-incompatible-red/10 border-incompatible-red/20'
-                  : 'bg-warning-orange-light border-warning-orange/20'
-              }`}
-            >
-              <div className="flex items-center gap-3">
-                {result.compatible ? (
-                  <CheckCircle className="w-5 h-5 text-compatible-green" />
-                ) : (
-                  <XCircle className="w-5 h-5 text-incompatible-red" />
-                )}
-                <span className="font-medium text-foreground">{result.pair}</span>
-              </div>
-              <div className="flex items-center gap-2">
-                <span className="text-sm text-muted-foreground">{result.reason}</span>
-                <Badge variant={result.compatible ? 'default' : 'destructive'}>
-                  {result.compatible ? 'Compatible' : 'Incompatible'}
-                </Badge>
-              </div>
-            </div>
-          ))}
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+          <h3 className="text-lg font-semibold text-foreground flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5" />
+            Compatibility Analysis
+            {evaluation.policy && (
+              <Badge variant="outline" className="text-xs font-normal" title={evaluation.policy.description}>
+                {evaluation.policy.name} policy
+              </Badge>
+            )}
+          </h3>
+          <div className="flex items-center gap-2">
+            {view === 'matrix' && (
+              <Button size="sm" variant="outline" onClick={exportMatrix}>
+                <Download className="w-4 h-4 mr-1" />
+                CSV
+              </Button>
+            )}
+            <ToggleGroup type="single" size="sm" variant="outline" value={view} onValueChange={(value) => value && setView(value as 'list' | 'matrix')}>
+              <ToggleGroupItem value="list" aria-label="List view">
+                <List className="w-4 h-4" />
+              </ToggleGroupItem>
+              <ToggleGroupItem value="matrix" aria-label="Matrix view">
+                <Grid3x3 className="w-4 h-4" />
+              </ToggleGroupItem>
+            </ToggleGroup>
+          </div>
         </div>
+
+        {view === 'matrix' ? (
+          <CompatibilityMatrixView matrix={buildCompatibilityMatrix(vegetables, evaluation)} />
+        ) : (
+          <div className="space-y-3">
+            {compatibilityResults.map((result) => (
+              <Collapsible
+                key={result.id}
+                className={`p-3 rounded-lg border ${
+                  result.compatible
+                    ? 'bg-compatible-green/10 border-compatible-green/20'
+                    : result.blocking
+                    ? 'bg-incompatible-red/10 border-incompatible-red/20'
+                    : 'bg-warning-orange-light border-warning-orange/20'
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    {result.compatible ? (
+                      <CheckCircle className="w-5 h-5 text-compatible-green" />
+                    ) : result.blocking ? (
+                      <XCircle className="w-5 h-5 text-incompatible-red" />
+                    ) : (
+                      <AlertTriangle className="w-5 h-5 text-warning-orange" />
+                    )}
+                    <span className="font-medium text-foreground">{result.pair}</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm text-muted-foreground">{result.reason}</span>
+                    {result.conflicts.map((type) => (
+                      <Badge key={type} variant="outline" className="text-xs capitalize">
+                        {type}
+                      </Badge>
+                    ))}
+                    <Badge variant={result.compatible ? 'default' : result.blocking ? 'destructive' : 'secondary'}>
+                      {result.compatible ? (result.resolved.length > 0 ? 'Mitigated' : 'Compatible') : result.blocking ? 'Blocked' : 'Warning'}
+                    </Badge>
+                    {result.ruleIds.length > 0 && (
+                      <CollapsibleTrigger asChild>
+                        <Button size="sm" variant="ghost" className="h-7 px-2 text-xs">
+                          Fixes
+                          <ChevronDown className="w-3 h-3 ml-1" />
+                        </Button>
+                      </CollapsibleTrigger>
+                    )}
+                  </div>
+                </div>
+                <CollapsibleContent className="mt-3">
+                  <FindingMitigations findings={[...result.findings, ...result.resolved]} onApply={onApplyMitigation} />
+                </CollapsibleContent>
+              </Collapsible>
+            ))}
+          </div>
+        )}
       </Card>
 
+      {catalog && onApplyResolution && (
+        <ConflictResolutionAssistant vegetables={vegetables} catalog={catalog} evaluation={evaluation} onApply={onApplyResolution} />
+      )}
+
       {/* Transport Recommendations */}
       <Card className="p-6">
         <h3 className="text-lg font-semibold mb-4 text-foreground flex items-center gap-2">
@@ -198,16 +490,24 @@ export function CompatibilityAnalysis({ vegetables, bestTravelTime = 'early_morn
               <Thermometer className="w-4 h-4 text-primary" />
               <span className="text-sm font-medium">Temperature:</span>
               <span className="text-sm text-muted-foreground">
-                {transportRec.temperature.min}°C - {transportRec.temperature.max}°C
+                {transportRec.setpointPlan
+                  ? `${transportRec.temperature.min}°C (compromise)`
+                  : `${transportRec.temperature.min}°C - ${transportRec.temperature.max}°C`}
               </span>
             </div>
 
             <div className="flex items-center gap-2">
-              <Clock className="w-4 h-4 text-primary" />
+              <Droplets className="w-4 h-4 text-primary" />
               <span className="text-sm font-medium">Humidity:</span>
               <span className="text-sm text-muted-foreground">{transportRec.humidity}</span>
             </div>
 
+            <div className="flex items-center gap-2">
+              <Wind className="w-4 h-4 text-primary" />
+              <span className="text-sm font-medium">Atmosphere:</span>
+              <span className="text-sm text-muted-foreground">{formatAtmosphere(transportRec.atmosphere.load.setting)}</span>
+            </div>
+
             <div className="flex items-center gap-2">
               <CheckCircle className="w-4 h-4 text-primary" />
               <span className="text-sm font-medium">Truck Type:</span>
@@ -217,33 +517,104 @@ export function CompatibilityAnalysis({ vegetables, bestTravelTime = 'early_morn
             </div>
 
             {/* Best Time to Travel (auto) */}
-            <div className="flex items-center gap-2">
-              <Clock className="w-4 h-4 text-primary" />
-              <span className="text-sm font-medium">Best Time to Travel:</span>
-              <Badge variant="secondary" className="ml-1 text-xs">
-                {recommendedTravelTime === 'early_morning' && 'Early Morning'}
-                {recommendedTravelTime === 'daytime' && 'Daytime'}
-                {recommendedTravelTime === 'evening' && 'Evening'}
-                {recommendedTravelTime === 'night' && 'Night'}
-              </Badge>
-              <span className="text-[10px] text-muted-foreground ml-1">(auto)</span>
-            </div>
-            <p className="text-xs text-muted-foreground">
-              Recommended based on temperature tolerances and ethylene sensitivity/production.
-            </p>
+            {departurePlan && (
+              <>
+                <div className="flex items-center gap-2">
+                  <Clock className="w-4 h-4 text-primary" />
+                  <span className="text-sm font-medium">Best Time to Travel:</span>
+                  <Badge variant="secondary" className="ml-1 text-xs">
+                    {TRAVEL_TIME_LABELS[departurePlan.best.travelTime]} ·{' '}
+                    {departurePlan.best.departure.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}
+                  </Badge>
+                  <span className="text-[10px] text-muted-foreground ml-1">(auto)</span>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Departure with the lowest predicted quality loss over the next day, from typical hourly temperatures for the
+                  region and month.
+                </p>
+              </>
+            )}
           </div>
 
-          {transportRec.separation.length > 0 && (
+          {(transportRec.separation.length > 0 || transportRec.treatments.length > 0) && (
             <div className="space-y-2">
-              <h4 className="text-sm font-medium text-warning-orange">Separation Required:</h4>
+              {transportRec.separation.length > 0 && (
+                <h4 className="text-sm font-medium text-warning-orange">Separation Required:</h4>
+              )}
               {transportRec.separation.map((instruction, index) => (
                 <p key={index} className="text-xs text-muted-foreground bg-warning-orange-light p-2 rounded">
                   {instruction}
                 </p>
               ))}
+              {transportRec.treatments.length > 0 && (
+                <h4 className="text-sm font-medium text-foreground">Active Treatments:</h4>
+              )}
+              {transportRec.treatments.map((treatment) => (
+                <p key={treatment} className="text-xs text-muted-foreground bg-success-green-light p-2 rounded">
+                  {treatment}
+                </p>
+              ))}
             </div>
           )}
         </div>
+
+        <AtmosphereDetails plan={transportRec.atmosphere} />
+        {transportRec.setpointPlan && <SetpointComparison plan={transportRec.setpointPlan} />}
+      </Card>
+
+      {/* Ethylene concentration in the cargo air over the route */}
+      <EthyleneSimulationChart simulation={ethyleneSimulation} routeDurationHours={routeDurationHours} />
+
+      {/* Chilling / freezing check against the truck setpoint */}
+      <Card className="p-6">
+        <h3 className="text-lg font-semibold mb-4 text-foreground flex items-center gap-2">
+          <Snowflake className="w-5 h-5" />
+          Cold Injury Check
+        </h3>
+
+        {truckType !== 'refrigerated' ? (
+          <p className="text-sm text-muted-foreground">
+            {truckType.charAt(0).toUpperCase() + truckType.slice(1)} trucks do not cool below outside air, so chilling and freezing thresholds are not at risk.
+          </p>
+        ) : coldInjuryWarnings.length === 0 ? (
+          <div className="flex items-center gap-2 text-compatible-green">
+            <CheckCircle className="w-5 h-5" />
+            <span className="text-sm">
+              No item is chilled or frozen at the {coldCheckSetpoint}°C {setpointC === null ? 'recommended' : 'planned'} setpoint
+            </span>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {coldInjuryWarnings.map((warning) => (
+              <div
+                key={`${warning.name}-${warning.risk}`}
+                className={`p-3 rounded-lg border ${
+                  warning.severity === 'high'
+                    ? 'bg-incompatible-red/10 border-incompatible-red/20'
+                    : 'bg-warning-orange-light border-warning-orange/20'
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <AlertTriangle className={`w-4 h-4 ${warning.severity === 'high' ? 'text-incompatible-red' : 'text-warning-orange'}`} />
+                    <span className="font-medium text-foreground">{warning.name}</span>
+                    <Badge variant="outline" className="text-xs capitalize">
+                      {warning.risk === 'chilling' ? 'Chilling injury' : 'Freezing'}
+                    </Badge>
+                  </div>
+                  <Badge variant={warning.severity === 'high' ? 'destructive' : 'secondary'} className="text-xs capitalize">
+                    {warning.severity} risk
+                  </Badge>
+                </div>
+                <p className="mt-1 text-xs text-muted-foreground">
+                  Setpoint {warning.setpoint}°C vs {warning.risk === 'chilling' ? 'chilling threshold' : 'freezing point'} {warning.threshold}°C.{' '}
+                  {warning.impact}
+                  {warning.shelfLifeLossDays > 0 && ` Estimated loss: ~${warning.shelfLifeLossDays} shelf-life days.`}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
       </Card>
     </div>
   );
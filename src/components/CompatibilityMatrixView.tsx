@@ -0,0 +1,96 @@
+import { HoverCard, HoverCardContent, HoverCardTrigger } from '@/components/ui/hover-card';
+import { Badge } from '@/components/ui/badge';
+import { CompatibilityMatrix, PairEvaluation, getRule } from '@/lib/compatibilityRules';
+
+interface CompatibilityMatrixViewProps {
+  matrix: CompatibilityMatrix;
+}
+
+const cellColor = (cell: PairEvaluation) =>
+  cell.compatible
+    ? 'bg-success-green/30 hover:bg-success-green/50'
+    : cell.severity === 'high'
+    ? 'bg-error-red/60 hover:bg-error-red/80'
+    : cell.severity === 'medium'
+    ? 'bg-warning-orange/60 hover:bg-warning-orange/80'
+    : 'bg-warning-orange/25 hover:bg-warning-orange/40';
+
+// Short column headers keep wide loads readable; the full label is in the row header and hover card
+const abbreviate = (label: string) => (label.length > 10 ? `${label.slice(0, 9)}…` : label);
+
+export function CompatibilityMatrixView({ matrix }: CompatibilityMatrixViewProps) {
+  return (
+    <div className="space-y-3">
+      <div className="overflow-x-auto">
+        <table className="border-separate border-spacing-1 text-xs">
+          <thead>
+            <tr>
+              <th />
+              {matrix.labels.map((label, j) => (
+                <th key={matrix.ids[j]} className="px-1 font-medium text-muted-foreground whitespace-nowrap" title={label}>
+                  {abbreviate(label)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {matrix.labels.map((rowLabel, i) => (
+              <tr key={matrix.ids[i]}>
+                <th className="pr-2 text-right font-medium text-foreground whitespace-nowrap">{rowLabel}</th>
+                {matrix.cells[i].map((cell, j) =>
+                  cell === null ? (
+                    <td key={matrix.ids[j]} className="w-9 h-9 rounded bg-muted/40" />
+                  ) : (
+                    <td key={matrix.ids[j]} className="p-0">
+                      <HoverCard openDelay={100} closeDelay={50}>
+                        <HoverCardTrigger asChild>
+                          <button
+                            type="button"
+                            className={`w-9 h-9 rounded transition-colors ${cellColor(cell)}`}
+                            aria-label={`${rowLabel} and ${matrix.labels[j]}: ${cell.compatible ? 'compatible' : `${cell.severity} severity`}`}
+                          >
+                            {cell.findings.length > 1 ? cell.findings.length : ''}
+                          </button>
+                        </HoverCardTrigger>
+                        <HoverCardContent className="w-72 text-sm">
+                          <div className="font-medium text-foreground mb-1">
+                            {rowLabel} + {matrix.labels[j]}
+                            {cell.blocking && <span className="ml-2 text-xs font-normal text-error-red">Blocks load</span>}
+                          </div>
+                          {cell.compatible ? (
+                            <p className="text-muted-foreground">Compatible for transport</p>
+                          ) : (
+                            <ul className="space-y-1">
+                              {cell.findings.map((finding) => (
+                                <li key={finding.type} className="flex items-start gap-2">
+                                  <Badge variant="outline" className="text-[10px] capitalize shrink-0">
+                                    {finding.severity}
+                                  </Badge>
+                                  <span className="text-muted-foreground">
+                                    <span className="text-foreground capitalize">{getRule(finding.type)?.label ?? finding.type}:</span> {finding.reason}
+                                  </span>
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </HoverCardContent>
+                      </HoverCard>
+                    </td>
+                  )
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-success-green/30" /> Compatible</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-warning-orange/25" /> Low</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-warning-orange/60" /> Medium</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-error-red/60" /> High</span>
+        <span>Numbers count conflicts in a cell; hover for reasons.</span>
+      </div>
+    </div>
+  );
+}
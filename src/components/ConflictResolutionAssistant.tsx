@@ -0,0 +1,104 @@
+import { useMemo } from 'react';
+import { ChevronDown, Lightbulb } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { toast } from '@/components/ui/use-toast';
+import { Vegetable } from './VegetableInput';
+import { ProduceCatalog } from '@/lib/produceCatalog';
+import { EvaluationOptions } from '@/lib/compatibilityRules';
+import { ResolutionAction, ResolutionSuggestion, suggestResolutions } from '@/lib/conflictResolution';
+
+interface ConflictResolutionAssistantProps {
+  vegetables: Vegetable[];
+  catalog: ProduceCatalog;
+  evaluation: EvaluationOptions;
+  onApply: (action: ResolutionAction) => void;
+}
+
+const ACTION_NOTES: Record<ResolutionAction['kind'], string> = {
+  remove: 'The line leaves this trip.',
+  move: 'Its conflicting pairs are marked "Separate truck" and one more truck is added to the plan.',
+  swap: 'Keeps the quantity, unit, grade and harvest date; ethylene, temperature and catalog values change to the substitute.',
+};
+
+// Smallest single-line changes that clean up the load, ranked by what they clear and what they cost
+export function ConflictResolutionAssistant({ vegetables, catalog, evaluation, onApply }: ConflictResolutionAssistantProps) {
+  // Every candidate re-runs the rule engine, so only rank again when the load changes
+  const suggestions = useMemo(() => suggestResolutions(vegetables, catalog, evaluation), [vegetables, catalog, evaluation]);
+  if (suggestions.length === 0) return null;
+
+  const apply = (suggestion: ResolutionSuggestion) => {
+    onApply(suggestion.action);
+    toast({ title: 'Change applied', description: `${suggestion.title}. ${suggestion.status.text}.` });
+  };
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-semibold mb-1 text-foreground flex items-center gap-2">
+        <Lightbulb className="w-5 h-5" />
+        What should I remove or move?
+      </h3>
+      <p className="text-sm text-muted-foreground mb-4">
+        Single changes ranked by the conflicts they clear, blocking ones first, then by effort.
+      </p>
+
+      <div className="space-y-2">
+        {suggestions.map((suggestion, rank) => {
+          const blockingCleared = suggestion.resolved.filter((r) => r.blocking).length;
+          return (
+            <Collapsible key={suggestion.id} className="rounded-lg border border-border p-3">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm text-muted-foreground">{rank + 1}.</span>
+                  <span className="font-medium text-foreground">{suggestion.title}</span>
+                  <Badge variant="secondary" className="text-xs">
+                    Clears {suggestion.resolved.length}
+                    {blockingCleared > 0 && ` (${blockingCleared} blocking)`}
+                  </Badge>
+                  <Badge variant={suggestion.remaining === 0 ? 'default' : 'outline'} className="text-xs">
+                    {suggestion.remaining === 0 ? 'Load clean' : `${suggestion.remaining} left`}
+                  </Badge>
+                  {suggestion.extraTrucks > 0 && (
+                    <Badge variant="outline" className="text-xs">
+                      +{suggestion.extraTrucks} truck
+                    </Badge>
+                  )}
+                </div>
+                <div className="flex items-center gap-1">
+                  <CollapsibleTrigger asChild>
+                    <Button size="sm" variant="ghost" className="h-7 px-2 text-xs">
+                      Preview
+                      <ChevronDown className="w-3 h-3 ml-1" />
+                    </Button>
+                  </CollapsibleTrigger>
+                  <Button size="sm" variant="outline" className="h-7 px-2 text-xs" onClick={() => apply(suggestion)}>
+                    Apply
+                  </Button>
+                </div>
+              </div>
+              <CollapsibleContent className="mt-3 space-y-2 text-xs">
+                <p className="text-muted-foreground">{ACTION_NOTES[suggestion.action.kind]}</p>
+                <ul className="space-y-1">
+                  {suggestion.resolved.map((conflict) => (
+                    <li key={`${conflict.ruleId}:${conflict.pair}`} className="flex items-start gap-2">
+                      <Badge variant="outline" className="font-mono text-[10px] shrink-0">
+                        {conflict.ruleId}
+                      </Badge>
+                      <span className="text-muted-foreground">
+                        <span className="text-foreground">{conflict.pair}:</span> {conflict.reason}
+                        {conflict.blocking && <span className="text-error-red"> (blocking)</span>}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+                <p className="text-foreground">After: {suggestion.status.text}</p>
+              </CollapsibleContent>
+            </Collapsible>
+          );
+        })}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,95 @@
+import { CloudRain } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { DELAY_PRESETS, DelayDistribution, DelayPresetId } from '@/lib/delaySimulation';
+
+export interface DelayTarget {
+  id: string;
+  label: string; // e.g. "La Trinidad → Balintawak"
+  delay?: DelayDistribution;
+}
+
+interface DelaySettingsProps {
+  targets: DelayTarget[]; // the whole route, or each leg of a multi-stop route
+  onChange: (id: string, delay: DelayDistribution | undefined) => void;
+}
+
+const inputClass = 'w-full border rounded-md p-2 bg-background text-sm';
+
+const sameDelay = (a: DelayDistribution, b: DelayDistribution) =>
+  a.probability === b.probability && a.minHours === b.minHours && a.modeHours === b.modeHours && a.maxHours === b.maxHours;
+
+// Chance and length of holdups per route or leg, fed to the Monte Carlo trip outcomes
+export function DelaySettings({ targets, onChange }: DelaySettingsProps) {
+  const presetOf = (delay?: DelayDistribution) =>
+    !delay
+      ? ''
+      : (Object.keys(DELAY_PRESETS) as DelayPresetId[]).find((id) => sameDelay(DELAY_PRESETS[id].delay, delay)) ?? 'custom';
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-semibold mb-2 flex items-center gap-2">
+        <CloudRain className="w-5 h-5" />
+        Delay Risk
+      </h3>
+      <p className="text-sm text-muted-foreground mb-4">
+        How likely a holdup is and how long it lasts (shortest, most likely, longest). The analysis samples these to show P50/P90
+        outcomes.
+      </p>
+
+      <div className="space-y-4">
+        {targets.map(({ id, label, delay }) => (
+          <div key={id} className="space-y-2">
+            <div className="grid sm:grid-cols-[1fr_1.5fr] gap-2 items-center">
+              <span className="text-sm font-medium text-foreground">{label}</span>
+              <select
+                className={inputClass}
+                value={presetOf(delay)}
+                onChange={(e) => {
+                  const value = e.target.value;
+                  if (value === '') onChange(id, undefined);
+                  else if (value !== 'custom') onChange(id, { ...DELAY_PRESETS[value as DelayPresetId].delay });
+                }}
+              >
+                <option value="">No delays expected</option>
+                {(Object.keys(DELAY_PRESETS) as DelayPresetId[]).map((preset) => (
+                  <option key={preset} value={preset}>
+                    {DELAY_PRESETS[preset].label}
+                  </option>
+                ))}
+                {presetOf(delay) === 'custom' && <option value="custom">Custom</option>}
+              </select>
+            </div>
+            {delay && (
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                {(
+                  [
+                    ['probability', 'Chance (%)', 100],
+                    ['minHours', 'Shortest (h)', 1],
+                    ['modeHours', 'Most likely (h)', 1],
+                    ['maxHours', 'Longest (h)', 1],
+                  ] as const
+                ).map(([field, fieldLabel, scale]) => (
+                  <div key={field}>
+                    <label className="block text-xs text-muted-foreground mb-1">{fieldLabel}</label>
+                    <input
+                      type="number"
+                      min={0}
+                      max={field === 'probability' ? 100 : undefined}
+                      step={field === 'probability' ? 5 : 0.5}
+                      className={inputClass}
+                      value={Math.round(delay[field] * scale * 100) / 100}
+                      onChange={(e) => {
+                        const value = Math.max(0, Number(e.target.value || 0)) / scale;
+                        onChange(id, { ...delay, [field]: field === 'probability' ? Math.min(1, value) : value });
+                      }}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+}
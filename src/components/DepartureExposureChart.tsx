@@ -0,0 +1,101 @@
+import { Bar, BarChart, CartesianGrid, Cell, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Sunrise } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { DeparturePlan, TRAVEL_TIME_LABELS } from '@/lib/departurePlanner';
+import { formatPeso } from '@/lib/produceCatalog';
+
+interface DepartureExposureChartProps {
+  plan: DeparturePlan;
+  regionName: string;
+  routeDurationHours: number;
+  onUseDeparture?: (departure: Date) => void;
+}
+
+const curveConfig = {
+  planned: { label: 'Planned departure (°C)', color: 'hsl(var(--warning-orange))' },
+  best: { label: 'Recommended departure (°C)', color: 'hsl(var(--success-green))' },
+} satisfies ChartConfig;
+
+const lossConfig = {
+  loss: { label: 'Predicted loss (₱)', color: 'hsl(var(--brand-teal))' },
+} satisfies ChartConfig;
+
+const formatDeparture = (date: Date) => date.toLocaleString(undefined, { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+
+// Outside air over the trip for the planned and the recommended departure, and the loss
+// predicted for every hourly departure over the next day
+export function DepartureExposureChart({ plan, regionName, routeDurationHours, onUseDeparture }: DepartureExposureChartProps) {
+  const { planned, best } = plan;
+  const improves = best.departure.getTime() !== planned.departure.getTime();
+  const data = plan.plannedCurve.map((point, i) => ({ hour: point.hour, planned: point.ambientC, best: plan.bestCurve[i]?.ambientC }));
+  const losses = plan.candidates.map((candidate) => ({
+    clock: `${String(candidate.departure.getHours()).padStart(2, '0')}h`,
+    loss: Math.round(candidate.lossValue),
+    best: candidate.departure.getTime() === best.departure.getTime(),
+  }));
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-foreground flex items-center gap-2">
+          <Sunrise className="w-5 h-5" />
+          Departure Time &amp; Ambient Exposure
+        </h3>
+        <Badge variant="secondary" className="text-xs">
+          Best: {formatDeparture(best.departure)} ({TRAVEL_TIME_LABELS[best.travelTime]})
+        </Badge>
+      </div>
+
+      <ChartContainer config={curveConfig} className="h-[220px] w-full">
+        <LineChart data={data} margin={{ left: 4, right: 12, top: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="hour" type="number" domain={[0, routeDurationHours]} tickFormatter={(h) => `${h}h`} />
+          <YAxis width={32} domain={['dataMin - 1', 'dataMax + 1']} tickFormatter={(v) => `${Math.round(v)}°`} />
+          <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `${payload?.[0]?.payload.hour ?? 0} h into the trip`} />} />
+          <Line dataKey="planned" type="monotone" stroke="var(--color-planned)" strokeWidth={2} dot={false} />
+          {improves && <Line dataKey="best" type="monotone" stroke="var(--color-best)" strokeWidth={2} dot={false} />}
+        </LineChart>
+      </ChartContainer>
+
+      <p className="mt-2 text-xs text-muted-foreground">
+        Typical {regionName} temperatures for the month. Leaving {formatDeparture(planned.departure)} peaks at{' '}
+        {planned.peakAmbientC.toFixed(1)}°C outside
+        {plan.setpointC !== null ? ` with the reefer at ${plan.setpointC}°C` : ''} and loses about {formatPeso(planned.lossValue)} of
+        shelf-life value.
+      </p>
+
+      <h4 className="mt-4 mb-2 text-sm font-medium text-foreground">Predicted loss by departure hour</h4>
+      <ChartContainer config={lossConfig} className="h-[140px] w-full">
+        <BarChart data={losses} margin={{ left: 4, right: 12, top: 4 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="clock" interval={2} tickLine={false} />
+          <YAxis width={48} tickFormatter={(v) => formatPeso(v)} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <Bar dataKey="loss" radius={2}>
+            {losses.map((entry) => (
+              <Cell key={entry.clock} fill={entry.best ? 'hsl(var(--success-green))' : 'var(--color-loss)'} />
+            ))}
+          </Bar>
+        </BarChart>
+      </ChartContainer>
+
+      <div className="mt-3 flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-foreground">
+          {!improves
+            ? 'The planned departure already has the lowest predicted loss.'
+            : planned.lossValue - best.lossValue >= 1
+              ? `Leaving ${formatDeparture(best.departure)} cuts the predicted loss to ${formatPeso(best.lossValue)}, saving ${formatPeso(planned.lossValue - best.lossValue)}.`
+              : `Leaving ${formatDeparture(best.departure)} keeps the same predicted loss in cooler air (${best.meanAmbientC.toFixed(1)}°C vs ${planned.meanAmbientC.toFixed(1)}°C on average).`}
+        </p>
+        {improves && onUseDeparture && (
+          <Button size="sm" variant="outline" onClick={() => onUseDeparture(best.departure)}>
+            Use this departure
+          </Button>
+        )}
+      </div>
+    </Card>
+  );
+}
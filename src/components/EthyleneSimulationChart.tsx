@@ -0,0 +1,86 @@
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Wind, AlertTriangle, CheckCircle } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { EthyleneSimulation } from '@/lib/ethyleneSimulation';
+
+interface EthyleneSimulationChartProps {
+  simulation: EthyleneSimulation;
+  routeDurationHours: number;
+}
+
+const chartConfig = {
+  ppm: { label: 'Ethylene (ppm)', color: 'hsl(var(--warning-orange))' },
+} satisfies ChartConfig;
+
+const formatPpm = (ppm: number) => (ppm >= 10 ? ppm.toFixed(0) : ppm >= 1 ? ppm.toFixed(1) : ppm.toFixed(2));
+
+export function EthyleneSimulationChart({ simulation, routeDurationHours }: EthyleneSimulationChartProps) {
+  const exceeded = simulation.exposures.filter((e) => e.status === 'exceeded');
+  // One reference line per distinct threshold, labelled with the items that share it
+  const thresholds = Array.from(
+    simulation.exposures.reduce((map, e) => map.set(e.thresholdPpm, [...(map.get(e.thresholdPpm) ?? []), e.name]), new Map<number, string[]>())
+  ).filter(([ppm]) => ppm <= Math.max(simulation.peakPpm * 1.5, 0.2));
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-foreground flex items-center gap-2">
+          <Wind className="w-5 h-5" />
+          Ethylene Build-up Over the Trip
+        </h3>
+        <Badge variant={exceeded.length > 0 ? 'destructive' : 'secondary'} className="text-xs">
+          Peak {formatPpm(simulation.peakPpm)} ppm
+        </Badge>
+      </div>
+
+      <ChartContainer config={chartConfig} className="h-[220px] w-full">
+        <LineChart data={simulation.points} margin={{ left: 4, right: 12, top: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="hour" type="number" domain={[0, routeDurationHours]} tickFormatter={(h) => `${h}h`} />
+          <YAxis tickFormatter={(v) => formatPpm(v)} width={40} />
+          <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `${payload?.[0]?.payload.hour ?? 0} h`} />} />
+          {thresholds.map(([ppm, names]) => (
+            <ReferenceLine
+              key={ppm}
+              y={ppm}
+              stroke="hsl(var(--error-red))"
+              strokeDasharray="4 4"
+              ifOverflow="extendDomain"
+              label={{ value: `${names.join(', ')} ${formatPpm(ppm)} ppm`, position: 'insideTopLeft', fontSize: 10 }}
+            />
+          ))}
+          <Line dataKey="ppm" type="monotone" stroke="var(--color-ppm)" strokeWidth={2} dot={false} />
+        </LineChart>
+      </ChartContainer>
+
+      <p className="mt-2 text-xs text-muted-foreground">
+        {Math.round(simulation.productionUlPerHour).toLocaleString()} µL/h produced at {simulation.cargoTempC}°C into{' '}
+        {simulation.airVolumeM3.toFixed(1)} m³ of cargo air, {simulation.airExchangePerHour} air changes per hour. Levels off near{' '}
+        {formatPpm(simulation.steadyStatePpm)} ppm on longer trips.
+      </p>
+
+      <div className="mt-3 space-y-2">
+        {exceeded.length === 0 ? (
+          <div className="flex items-center gap-2 text-compatible-green">
+            <CheckCircle className="w-4 h-4" />
+            <span className="text-sm">No item reaches its ethylene damage threshold on this trip</span>
+          </div>
+        ) : (
+          exceeded.map((e) => (
+            <div key={e.id} className="flex items-center justify-between gap-2 p-2 rounded-lg border bg-warning-orange-light border-warning-orange/20">
+              <div className="flex items-center gap-2">
+                <AlertTriangle className="w-4 h-4 text-warning-orange" />
+                <span className="text-sm font-medium text-foreground">{e.name}</span>
+              </div>
+              <span className="text-xs text-muted-foreground">
+                Above {formatPpm(e.thresholdPpm)} ppm from hour {e.exceedsAtHour.toFixed(1)}
+              </span>
+            </div>
+          ))
+        )}
+      </div>
+    </Card>
+  );
+}
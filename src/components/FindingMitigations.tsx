@@ -0,0 +1,87 @@
+import { ShieldCheck, Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Finding, MitigatedSeverity, getRule } from '@/lib/compatibilityRules';
+import { MITIGATIONS, MitigationId, TREATMENTS } from '@/lib/mitigations';
+
+interface FindingMitigationsProps {
+  findings: Finding[]; // open and resolved findings for one pair
+  onApply?: (key: string, mitigation: MitigationId | null) => void;
+}
+
+const effectLabel = (severity: MitigatedSeverity) => (severity === 'none' ? 'Resolves' : `→ ${severity}`);
+
+// Evidence and ranked fixes for each finding on a pair
+export function FindingMitigations({ findings, onApply }: FindingMitigationsProps) {
+  return (
+    <div className="space-y-3">
+      {findings.map((finding) => (
+        <div key={finding.key} className="rounded-md border border-border bg-card p-3 text-xs">
+          <div className="flex flex-wrap items-center gap-2 mb-2">
+            <Badge variant="outline" className="font-mono text-[10px]">
+              {finding.ruleId}
+            </Badge>
+            <span className="font-medium text-foreground capitalize">{getRule(finding.type)?.label ?? finding.type}</span>
+            {!finding.cleared && (
+              <Badge variant={finding.blocking ? 'destructive' : 'secondary'} className="text-[10px]">
+                {finding.blocking ? 'Blocks load' : 'Warning'}
+              </Badge>
+            )}
+            <span className="text-muted-foreground">
+              {finding.applied
+                ? `${finding.baseSeverity} → ${finding.applied.severityAfter === 'none' ? 'resolved' : finding.severity}`
+                : `${finding.severity} severity`}
+            </span>
+          </div>
+
+          <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 mb-2">
+            {finding.evidence.map((item) => (
+              <div key={item.label} className="contents">
+                <dt className="text-muted-foreground">{item.label}</dt>
+                <dd className="text-foreground">{item.value}</dd>
+              </div>
+            ))}
+          </dl>
+
+          {finding.treatedBy.length > 0 && (
+            <p className="mb-2 text-muted-foreground">
+              Treated: <span className="text-foreground">{finding.treatedBy.map((t) => TREATMENTS[t].label).join(' + ')}</span>
+              {finding.cleared ? ' (resolved)' : ` (${finding.baseSeverity} → ${finding.severity})`}
+            </p>
+          )}
+
+          {finding.applied ? (
+            <div className="flex items-center justify-between gap-2 rounded bg-success-green-light p-2">
+              <span className="flex items-center gap-1 text-foreground">
+                <ShieldCheck className="w-3 h-3" />
+                {MITIGATIONS[finding.applied.id].label} applied ({effectLabel(finding.applied.severityAfter).toLowerCase()})
+              </span>
+              {onApply && (
+                <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" onClick={() => onApply(finding.key, null)}>
+                  <Undo2 className="w-3 h-3 mr-1" />
+                  Undo
+                </Button>
+              )}
+            </div>
+          ) : (
+            <ol className="space-y-1">
+              {finding.mitigations.map((option, rank) => (
+                <li key={option.id} className="flex items-center justify-between gap-2">
+                  <span className="text-muted-foreground" title={MITIGATIONS[option.id].description}>
+                    {rank + 1}. <span className="text-foreground">{MITIGATIONS[option.id].label}</span>{' '}
+                    <span className={option.severityAfter === 'none' ? 'text-success-green' : ''}>({effectLabel(option.severityAfter)})</span>
+                  </span>
+                  {onApply && (
+                    <Button size="sm" variant="outline" className="h-6 px-2 text-xs" onClick={() => onApply(finding.key, option.id)}>
+                      Apply
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,10 +1,15 @@
 import { TrendingDown, TrendingUp, Leaf, Banknote, Clock, Package } from 'lucide-react';
 import { Card } from '@/components/ui/card';
 import { Vegetable } from './VegetableInput';
+import { getLineWeightKg } from '@/lib/loadUnits';
+import { getPricePerKg } from '@/lib/produceCatalog';
+import { applyMaturity } from '@/lib/maturity';
+import { EvaluationOptions, evaluateLoad, findingsForLine, getRules, worstSeverity } from '@/lib/compatibilityRules';
+import { optimizedWasteFraction } from '@/lib/wasteModel';
 
 interface ImpactMetricsProps {
   vegetables: Vegetable[];
-  unitPrice?: number; // price per unit in PHP
+  evaluation?: EvaluationOptions; // applied mitigations and scenario treatments
 }
 
 interface ImpactCalculation {
@@ -25,7 +30,8 @@ interface ImpactCalculation {
   };
 }
 
-function calculateImpact(vegetables: Vegetable[], unitCost: number): ImpactCalculation {
+function calculateImpact(lines: Vegetable[], evaluation: EvaluationOptions): ImpactCalculation {
+  const vegetables = lines.map(applyMaturity);
   if (vegetables.length === 0) {
     return {
       withoutShelfLife: { wastePercentage: 0, shelfLifeDays: 0, estimatedLoss: 0 },
@@ -34,40 +40,38 @@ function calculateImpact(vegetables: Vegetable[], unitCost: number): ImpactCalcu
     };
   }
   
-  // Calculate baseline (without ShelfLife+ optimization)
+  // Calculate baseline (without ShelfLife+ optimization): the policy's findings with no
+  // mitigations or treatments, which only the optimized side gets credit for
+  const evaluations = evaluateLoad(lines, { policy: evaluation.policy });
+  let baselineLoss = 0;
   const baselineWaste = vegetables.reduce((total, veg) => {
-    // Without optimization: incompatible mixing leads to accelerated spoilage
-    const hasEthyleneIssues = vegetables.some(other => 
-      other.id !== veg.id && 
-      ((veg.ethyleneProduction === 'high' && other.ethyleneSensitivity === 'high') ||
-       (other.ethyleneProduction === 'high' && veg.ethyleneSensitivity === 'high'))
-    );
-    
-    const hasTemperatureIssues = vegetables.some(other => 
-      other.id !== veg.id &&
-      (veg.idealTemp.max < other.idealTemp.min || other.idealTemp.max < veg.idealTemp.min)
-    );
+    // Without optimization: incompatible mixing leads to accelerated spoilage.
+    // Each rule adds its penalty once, at the worst severity it reached for this line.
+    const findings = findingsForLine(evaluations, veg.id);
+    const penalties = getRules().map(rule => {
+      const caught = findings.filter(f => f.type === rule.type);
+      return caught.length > 0 ? rule.wastePenalty[worstSeverity(caught)] : 0;
+    });
     
-    let wasteMultiplier = 0.25; // Base 25% waste
-    if (hasEthyleneIssues) wasteMultiplier += 0.20; // +20% for ethylene issues
-    if (hasTemperatureIssues) wasteMultiplier += 0.15; // +15% for temperature issues
+    const wasteMultiplier = 0.25 + penalties.reduce((sum, p) => sum + p, 0); // Base 25% waste
     
-    return total + (veg.quantity * Math.min(wasteMultiplier, 0.70)); // Cap at 70% waste
+    const wasteKg = getLineWeightKg(veg) * Math.min(wasteMultiplier, 0.70); // Cap at 70% waste
+    baselineLoss += wasteKg * getPricePerKg(veg);
+    return total + wasteKg;
   }, 0);
   
   // Calculate with ShelfLife+ optimization
+  let optimizedLoss = 0;
   const optimizedWaste = vegetables.reduce((total, veg) => {
     // With optimization: proper separation and storage conditions
-    const baseWaste = 0.10; // Optimized base waste of 10%
-    return total + (veg.quantity * baseWaste);
+    const wasteKg = getLineWeightKg(veg) * optimizedWasteFraction(evaluation.treatments?.[veg.id] ?? []);
+    optimizedLoss += wasteKg * getPricePerKg(veg);
+    return total + wasteKg;
   }, 0);
   
-  const totalQuantity = vegetables.reduce((sum, veg) => sum + veg.quantity, 0);
+  const totalQuantity = vegetables.reduce((sum, veg) => sum + getLineWeightKg(veg), 0); // kg
   const avgShelfLife = vegetables.reduce((sum, veg) => sum + veg.shelfLife, 0) / vegetables.length;
   
-  const baselineLoss = baselineWaste * unitCost;
-  const optimizedLoss = optimizedWaste * unitCost;
-  
   return {
     withoutShelfLife: {
       wastePercentage: totalQuantity > 0 ? (baselineWaste / totalQuantity) * 100 : 0,
@@ -87,8 +91,8 @@ function calculateImpact(vegetables: Vegetable[], unitCost: number): ImpactCalcu
   };
 }
 
-export function ImpactMetrics({ vegetables, unitPrice = 100 }: ImpactMetricsProps) {
-  const impact = calculateImpact(vegetables, unitPrice);
+export function ImpactMetrics({ vegetables, evaluation = {} }: ImpactMetricsProps) {
+  const impact = calculateImpact(vegetables, evaluation);
   const currencySymbol = '₱';
   
   if (vegetables.length === 0) {
@@ -222,7 +226,7 @@ export function ImpactMetrics({ vegetables, unitPrice = 100 }: ImpactMetricsProp
           </div>
         </div>
         <div className="mt-3 text-xs text-muted-foreground">
-          Assumption: {currencySymbol}{unitPrice.toFixed(2)} per unit
+          Losses valued at each produce's catalog price per kg
         </div>
       </Card>
     </div>
@@ -0,0 +1,26 @@
+import { Progress } from '@/components/ui/progress';
+import { LoadRisk } from '@/lib/loadRisk';
+
+interface LoadRiskBreakdownProps {
+  risk: LoadRisk;
+}
+
+// Points each factor adds to the load risk score, out of its weight
+export function LoadRiskBreakdown({ risk }: LoadRiskBreakdownProps) {
+  return (
+    <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-4">
+      {risk.factors.map((factor) => (
+        <div key={factor.id}>
+          <div className="flex items-center justify-between text-sm mb-1">
+            <span className="text-muted-foreground">{factor.label}</span>
+            <span className="font-medium text-foreground">
+              {factor.points}/{factor.weight}
+            </span>
+          </div>
+          <Progress value={factor.exposure * 100} className="h-2" />
+          <p className="mt-1 text-xs text-muted-foreground">{factor.detail}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,366 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Copy, Pencil, Plus, ShieldCheck, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { getRules } from '@/lib/compatibilityRules';
+import { BUILT_IN_POLICIES, CONFLICT_TYPES, DEFAULT_POLICY_ID, PolicyProfile, RulePolicy, policyProfileSchema } from '@/lib/policyProfiles';
+
+type PolicyFormValues = z.infer<typeof policyProfileSchema>;
+
+interface PolicyProfileManagerProps {
+  policies: Record<string, PolicyProfile>;
+  customPolicies: Record<string, PolicyProfile>;
+  isBuiltIn: (id: string) => boolean;
+  selectedId: string;
+  onSelect: (id: string) => void;
+  onSave: (profile: PolicyProfile) => void;
+  onDelete: (id: string) => void;
+}
+
+type EditorState = { mode: 'create' | 'edit' | 'clone' } | null;
+
+const selectClassName = 'w-full border rounded-md p-2 bg-background text-sm';
+
+const BLOCK_LABELS: Record<RulePolicy['blockFrom'], string> = {
+  low: 'Any severity',
+  medium: 'Medium and up',
+  high: 'High only',
+  never: 'Never (warn)',
+};
+
+const ruleLabel = (type: string) => {
+  const rule = getRules().find((r) => r.type === type);
+  return rule ? `${rule.id} ${rule.label}` : type;
+};
+
+// One-line summary of what a profile blocks
+const blockSummary = (profile: PolicyProfile) =>
+  CONFLICT_TYPES.map((type) => {
+    const rule = profile.rules[type];
+    return !rule.enabled ? `${type} off` : rule.blockFrom === 'never' ? `${type} warns` : `${type} blocks ${rule.blockFrom}+`;
+  }).join(' • ');
+
+export function PolicyProfileManager({ policies, customPolicies, isBuiltIn, selectedId, onSelect, onSave, onDelete }: PolicyProfileManagerProps) {
+  const [editor, setEditor] = useState<EditorState>(null);
+  const [deleteTarget, setDeleteTarget] = useState<string | null>(null);
+  const form = useForm<PolicyFormValues>({
+    resolver: zodResolver(policyProfileSchema),
+    defaultValues: BUILT_IN_POLICIES[DEFAULT_POLICY_ID],
+  });
+
+  const selected = policies[selectedId] ?? BUILT_IN_POLICIES[DEFAULT_POLICY_ID];
+
+  const openEditor = (mode: 'create' | 'edit' | 'clone', id?: string) => {
+    const source = id ? policies[id] : BUILT_IN_POLICIES[DEFAULT_POLICY_ID];
+    form.reset({
+      ...source,
+      rules: Object.fromEntries(CONFLICT_TYPES.map((type) => [type, { ...source.rules[type] }])) as PolicyProfile['rules'],
+      thresholds: { ...source.thresholds },
+      // Edits keep the id so scenarios using the profile follow it; new profiles get their own
+      id: mode === 'edit' ? source.id : `custom-${crypto.randomUUID().slice(0, 8)}`,
+      name: mode === 'create' ? '' : mode === 'clone' ? `${source.name} (copy)` : source.name,
+      description: mode === 'create' ? '' : source.description,
+    });
+    setEditor({ mode });
+  };
+
+  const handleSubmit = (values: PolicyFormValues) => {
+    const name = values.name.trim();
+    const taken = Object.values(policies).some((p) => p.id !== values.id && p.name.toLowerCase() === name.toLowerCase());
+    if (taken) {
+      form.setError('name', { message: `"${name}" is already a profile` });
+      return;
+    }
+    onSave({ ...values, name } as PolicyProfile);
+    if (editor?.mode !== 'edit') onSelect(values.id);
+    setEditor(null);
+  };
+
+  return (
+    <>
+      <Card className="p-6">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-lg font-semibold text-foreground flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5" />
+            Buyer Policy
+          </h3>
+          <Button size="sm" variant="outline" onClick={() => openEditor('create')}>
+            <Plus className="w-4 h-4 mr-1" />
+            New profile
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground mb-4">
+          The status bar, analysis and exports report conflicts against the selected profile.
+        </p>
+
+        <label className="block text-sm text-muted-foreground mb-1">Profile for this scenario</label>
+        <select className={selectClassName} value={selected.id} onChange={(e) => onSelect(e.target.value)}>
+          {Object.values(policies).map((profile) => (
+            <option key={profile.id} value={profile.id}>
+              {profile.name}
+            </option>
+          ))}
+        </select>
+        {selected.description && <p className="mt-1 text-xs text-muted-foreground">{selected.description}</p>}
+
+        <div className="mt-4 space-y-2">
+          {Object.values(policies).map((profile) => {
+            const custom = Boolean(customPolicies[profile.id]);
+            const builtIn = isBuiltIn(profile.id);
+            return (
+              <div key={profile.id} className="flex items-center justify-between p-3 bg-card rounded-lg border border-border">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-foreground truncate">{profile.name}</span>
+                    {custom && (
+                      <Badge variant="secondary" className="text-xs">
+                        {builtIn ? 'Edited' : 'Custom'}
+                      </Badge>
+                    )}
+                    {profile.id === selected.id && <Badge className="text-xs">In use</Badge>}
+                  </div>
+                  <div className="text-xs text-muted-foreground capitalize">{blockSummary(profile)}</div>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button size="sm" variant="ghost" className="w-8 h-8 p-0" title="Edit" onClick={() => openEditor('edit', profile.id)}>
+                    <Pencil className="w-3 h-3" />
+                  </Button>
+                  <Button size="sm" variant="ghost" className="w-8 h-8 p-0" title="Clone" onClick={() => openEditor('clone', profile.id)}>
+                    <Copy className="w-3 h-3" />
+                  </Button>
+                  {custom && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="w-8 h-8 p-0 text-incompatible-red"
+                      title={builtIn ? 'Revert to built-in settings' : 'Delete'}
+                      onClick={() => setDeleteTarget(profile.id)}
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </Card>
+
+      <Dialog open={editor !== null} onOpenChange={(open) => !open && setEditor(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>
+              {editor?.mode === 'edit' ? 'Edit policy profile' : editor?.mode === 'clone' ? 'Clone policy profile' : 'New policy profile'}
+            </DialogTitle>
+            <DialogDescription>Which conflicts a buyer tolerates, how severe they are and which ones block the load.</DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleSubmit)} className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Export packer" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Input {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="col-span-2 grid grid-cols-[1.5fr_auto_1fr_1fr] gap-x-3 gap-y-2 items-center text-sm">
+                <span className="text-xs text-muted-foreground">Rule</span>
+                <span className="text-xs text-muted-foreground">On</span>
+                <span className="text-xs text-muted-foreground">Severity</span>
+                <span className="text-xs text-muted-foreground">Blocks load</span>
+                {CONFLICT_TYPES.map((type) => (
+                  <div key={type} className="contents">
+                    <span className="capitalize">{ruleLabel(type)}</span>
+                    <FormField
+                      control={form.control}
+                      name={`rules.${type}.enabled`}
+                      render={({ field }) => (
+                        <FormItem className="space-y-0">
+                          <FormControl>
+                            <Checkbox checked={field.value === true} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`rules.${type}.severity`}
+                      render={({ field }) => (
+                        <FormItem className="space-y-0">
+                          <FormControl>
+                            <select className={selectClassName} {...field} value={field.value ?? ''}>
+                              <option value="">Rule default</option>
+                              <option value="low">Low</option>
+                              <option value="medium">Medium</option>
+                              <option value="high">High</option>
+                            </select>
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`rules.${type}.blockFrom`}
+                      render={({ field }) => (
+                        <FormItem className="space-y-0">
+                          <FormControl>
+                            <select className={selectClassName} {...field}>
+                              {(Object.keys(BLOCK_LABELS) as RulePolicy['blockFrom'][]).map((level) => (
+                                <option key={level} value={level}>
+                                  {BLOCK_LABELS[level]}
+                                </option>
+                              ))}
+                            </select>
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              {(['ethyleneProduction', 'ethyleneSensitivity'] as const).map((name) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={`thresholds.${name}`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{name === 'ethyleneProduction' ? 'Flag producers from' : 'Flag sensitive items from'}</FormLabel>
+                      <FormControl>
+                        <select className={selectClassName} {...field}>
+                          <option value="low">Low</option>
+                          <option value="medium">Medium</option>
+                          <option value="high">High</option>
+                        </select>
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+              <FormField
+                control={form.control}
+                name="thresholds.temperatureToleranceC"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Accepted temperature gap (°C)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} step={0.5} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="thresholds.humidityToleranceRh"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Accepted humidity gap (pts)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} step={1} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="thresholds.humidityMediumGapRh"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Humidity gap for medium severity (pts)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} step={1} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <DialogFooter className="col-span-2">
+                <Button type="button" variant="outline" onClick={() => setEditor(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" className="bg-fresh-green hover:bg-fresh-green-dark text-white">
+                  Save
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deleteTarget !== null} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {deleteTarget && isBuiltIn(deleteTarget) ? 'Revert to built-in settings?' : 'Delete policy profile?'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleteTarget && isBuiltIn(deleteTarget)
+                ? `Your changes to ${policies[deleteTarget]?.name} will be discarded.`
+                : `${deleteTarget ? policies[deleteTarget]?.name : ''} will be removed. Scenarios using it fall back to ${BUILT_IN_POLICIES[DEFAULT_POLICY_ID].name}.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (deleteTarget) onDelete(deleteTarget);
+                setDeleteTarget(null);
+              }}
+            >
+              {deleteTarget && isBuiltIn(deleteTarget) ? 'Revert' : 'Delete'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
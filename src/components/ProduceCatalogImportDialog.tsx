@@ -0,0 +1,197 @@
+import { useState } from 'react';
+import { CheckCircle, AlertTriangle, XCircle, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from '@/components/ui/use-toast';
+import { ProduceCatalog, ProduceDefinition } from '@/lib/produceCatalog';
+import {
+  CATALOG_CSV_HEADERS,
+  ConflictResolution,
+  ImportReport,
+  inferCatalogFormat,
+  parseCatalogImport,
+  resolveCatalogImport,
+} from '@/lib/produceCatalogTransfer';
+
+interface ProduceCatalogImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  catalog: ProduceCatalog;
+  onImport: (definitions: ProduceDefinition[]) => void;
+}
+
+export function ProduceCatalogImportDialog({ open, onOpenChange, catalog, onImport }: ProduceCatalogImportDialogProps) {
+  const [fileName, setFileName] = useState('');
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [resolutions, setResolutions] = useState<Record<number, ConflictResolution>>({});
+
+  const reset = () => {
+    setFileName('');
+    setReport(null);
+    setResolutions({});
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const text = await file.text();
+      setFileName(file.name);
+      setReport(parseCatalogImport(text, inferCatalogFormat(file.name, text), catalog));
+      setResolutions({});
+    } catch (e) {
+      toast({ title: 'Import failed', description: 'Could not read the selected file.' });
+    }
+  };
+
+  const setAllConflicts = (resolution: ConflictResolution) => {
+    if (!report) return;
+    setResolutions(Object.fromEntries(report.rows.filter((r) => r.conflict).map((r) => [r.row, resolution])));
+  };
+
+  const validRows = report?.rows.filter((r) => r.definition) ?? [];
+  const invalidRows = report?.rows.filter((r) => !r.definition) ?? [];
+  const conflictRows = validRows.filter((r) => r.conflict);
+  const toImport = report ? resolveCatalogImport(report, resolutions, catalog) : [];
+
+  const confirmImport = () => {
+    if (toImport.length === 0) return;
+    onImport(toImport);
+    toast({
+      title: 'Catalog imported',
+      description: `${toImport.length} entr${toImport.length === 1 ? 'y' : 'ies'} saved${invalidRows.length ? `, ${invalidRows.length} invalid row(s) skipped` : ''}.`,
+    });
+    reset();
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) reset();
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import produce catalog</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or JSON file. CSV headers: {CATALOG_CSV_HEADERS.join(', ')}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <label className="flex items-center justify-center gap-2 p-4 border-2 border-dashed border-border rounded-lg cursor-pointer hover:bg-muted/30 text-sm text-muted-foreground">
+          <Upload className="w-4 h-4" />
+          {fileName || 'Choose a .csv or .json file'}
+          <input
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            className="hidden"
+            onChange={(e) => {
+              handleFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+        </label>
+
+        {report && (
+          <div className="space-y-3">
+            {report.errors.map((error) => (
+              <p key={error} className="text-xs text-incompatible-red bg-incompatible-red/10 p-2 rounded">
+                {error}
+              </p>
+            ))}
+
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              <Badge variant="secondary">{validRows.length} valid</Badge>
+              <Badge variant={invalidRows.length ? 'destructive' : 'secondary'}>{invalidRows.length} invalid</Badge>
+              <Badge variant="secondary">{conflictRows.length} conflicts</Badge>
+              {conflictRows.length > 0 && (
+                <div className="ml-auto flex items-center gap-1">
+                  <span className="text-muted-foreground">All conflicts:</span>
+                  {(['keep', 'overwrite', 'rename'] as ConflictResolution[]).map((resolution) => (
+                    <Button key={resolution} size="sm" variant="outline" className="h-6 px-2 text-xs" onClick={() => setAllConflicts(resolution)}>
+                      {resolution.charAt(0).toUpperCase() + resolution.slice(1)}
+                    </Button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="max-h-72 overflow-y-auto space-y-2 pr-1">
+              {report.rows.map((row) => (
+                <div
+                  key={row.row}
+                  className={`flex items-start justify-between gap-3 p-2 rounded-lg border text-sm ${
+                    !row.definition
+                      ? 'bg-incompatible-red/10 border-incompatible-red/20'
+                      : row.conflict
+                      ? 'bg-warning-orange-light border-warning-orange/20'
+                      : 'bg-compatible-green/10 border-compatible-green/20'
+                  }`}
+                >
+                  <div className="flex items-start gap-2 min-w-0">
+                    {!row.definition ? (
+                      <XCircle className="w-4 h-4 mt-0.5 text-incompatible-red flex-shrink-0" />
+                    ) : row.conflict ? (
+                      <AlertTriangle className="w-4 h-4 mt-0.5 text-warning-orange flex-shrink-0" />
+                    ) : (
+                      <CheckCircle className="w-4 h-4 mt-0.5 text-compatible-green flex-shrink-0" />
+                    )}
+                    <div className="min-w-0">
+                      <div className="font-medium text-foreground truncate">
+                        Row {row.row}: {row.name || <span className="text-muted-foreground">(no name)</span>}
+                      </div>
+                      {row.errors.map((error) => (
+                        <div key={error} className="text-xs text-muted-foreground">{error}</div>
+                      ))}
+                      {row.conflict && <div className="text-xs text-muted-foreground">Name already exists</div>}
+                    </div>
+                  </div>
+                  {row.conflict && (
+                    <select
+                      className="border rounded-md p-1 bg-background text-xs"
+                      value={resolutions[row.row] ?? 'keep'}
+                      onChange={(e) => setResolutions((prev) => ({ ...prev, [row.row]: e.target.value as ConflictResolution }))}
+                    >
+                      <option value="keep">Keep existing</option>
+                      <option value="overwrite">Overwrite</option>
+                      <option value="rename">Rename</option>
+                    </select>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => {
+              reset();
+              onOpenChange(false);
+            }}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={confirmImport}
+            disabled={toImport.length === 0}
+            className="bg-fresh-green hover:bg-fresh-green-dark text-white"
+          >
+            Import {toImport.length} entr{toImport.length === 1 ? 'y' : 'ies'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,547 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { BookOpen, Copy, Pencil, Plus, Trash2, ArrowDownUp } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { toast } from '@/components/ui/use-toast';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { DEFAULT_FREEZING_POINT, DEFAULT_HUMIDITY, DEFAULT_PRICE_PER_KG, ProduceCatalog, ProduceDefinition, getHumidityRange, produceDefinitionSchema } from '@/lib/produceCatalog';
+import { DEFAULT_BULK_DENSITY, PACKAGE_UNITS, QUANTITY_UNITS } from '@/lib/loadUnits';
+import { ALIAS_LANGUAGES, AliasLanguage } from '@/lib/produceSearch';
+import { serializeCatalogCSV, serializeCatalogJSON } from '@/lib/produceCatalogTransfer';
+import { ProduceCatalogImportDialog } from './ProduceCatalogImportDialog';
+
+type ProduceFormValues = z.infer<typeof produceDefinitionSchema>;
+
+interface ProduceCatalogManagerProps {
+  catalog: ProduceCatalog;
+  customProduce: ProduceCatalog;
+  isBuiltIn: (name: string) => boolean;
+  onSave: (definition: ProduceDefinition, previousName?: string) => void;
+  onImport: (definitions: ProduceDefinition[]) => void;
+  onDelete: (name: string) => void;
+}
+
+type EditorState = { mode: 'create' | 'edit' | 'clone'; previousName?: string } | null;
+
+const EMPTY_PRODUCE: ProduceFormValues = {
+  name: '',
+  ethyleneProduction: 'low',
+  ethyleneSensitivity: 'low',
+  idealTemp: { min: 0, max: 4 },
+  idealHumidity: { ...DEFAULT_HUMIDITY },
+  chillingThreshold: undefined,
+  odorEmitter: false,
+  odorAbsorber: false,
+  freezingPoint: DEFAULT_FREEZING_POINT,
+  bulkDensity: DEFAULT_BULK_DENSITY,
+  unitWeightsKg: {},
+  aliases: {},
+  shelfLife: 7,
+};
+
+const selectClassName = 'w-full border rounded-md p-2 bg-background text-sm';
+
+export function ProduceCatalogManager({ catalog, customProduce, isBuiltIn, onSave, onImport, onDelete }: ProduceCatalogManagerProps) {
+  const [editor, setEditor] = useState<EditorState>(null);
+  const [deleteTarget, setDeleteTarget] = useState<string | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
+  const form = useForm<ProduceFormValues>({
+    resolver: zodResolver(produceDefinitionSchema),
+    defaultValues: EMPTY_PRODUCE,
+  });
+
+  const openEditor = (mode: 'create' | 'edit' | 'clone', name?: string) => {
+    const source = name ? catalog[name] : undefined;
+    form.reset(
+      source
+        ? { ...source, idealHumidity: getHumidityRange(source), unitWeightsKg: { ...source.unitWeightsKg }, aliases: { ...source.aliases }, name: mode === 'clone' ? `${source.name} (copy)` : source.name }
+        : EMPTY_PRODUCE
+    );
+    setEditor({ mode, previousName: mode === 'edit' ? name : undefined });
+  };
+
+  const handleSubmit = (values: ProduceFormValues) => {
+    const name = values.name.trim();
+    // Names are the catalog key, so a new name must not shadow another entry
+    const renamed = editor?.mode !== 'edit' || editor.previousName !== name;
+    if (renamed && catalog[name]) {
+      form.setError('name', { message: `"${name}" is already in the catalog` });
+      return;
+    }
+    onSave({ ...values, name } as ProduceDefinition, editor?.previousName);
+    setEditor(null);
+  };
+
+  const exportCatalog = (format: 'csv' | 'json', onlyCustom: boolean) => {
+    try {
+      const source = onlyCustom ? Object.values(customProduce) : Object.values(catalog);
+      const content = format === 'csv' ? serializeCatalogCSV(source) : serializeCatalogJSON(source);
+      const blob = new Blob([content], {
+        type: format === 'csv' ? 'text/csv;charset=utf-8;' : 'application/json;charset=utf-8;',
+      });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `shelflife_catalog${onlyCustom ? '_custom' : ''}.${format}`;
+      a.click();
+      URL.revokeObjectURL(url);
+      toast({ title: 'Exported', description: `${source.length} catalog entries downloaded as ${format.toUpperCase()}.` });
+    } catch (e) {
+      toast({ title: 'Export failed', description: 'Could not generate the catalog file.' });
+    }
+  };
+
+  const entries = Object.values(catalog);
+
+  return (
+    <>
+      <Card className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-foreground flex items-center gap-2">
+            <BookOpen className="w-5 h-5" />
+            Produce Catalog
+          </h3>
+          <div className="flex items-center gap-2">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button size="sm" variant="outline">
+                  <ArrowDownUp className="w-4 h-4 mr-1" />
+                  Import / Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => setImportOpen(true)}>Import CSV or JSON…</DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onClick={() => exportCatalog('csv', false)}>Export catalog as CSV</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => exportCatalog('json', false)}>Export catalog as JSON</DropdownMenuItem>
+                <DropdownMenuItem
+                  disabled={Object.keys(customProduce).length === 0}
+                  onClick={() => exportCatalog('json', true)}
+                >
+                  Export custom entries only (JSON)
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button
+              size="sm"
+              onClick={() => openEditor('create')}
+              className="bg-fresh-green hover:bg-fresh-green-dark text-white"
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              New produce
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-2 max-h-96 overflow-y-auto pr-1">
+          {entries.map((entry) => {
+            const custom = Boolean(customProduce[entry.name]);
+            const builtIn = isBuiltIn(entry.name);
+            return (
+              <div key={entry.name} className="flex items-center justify-between p-3 bg-card rounded-lg border border-border">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-foreground truncate">{entry.name}</span>
+                    {custom && (
+                      <Badge variant="secondary" className="text-xs">
+                        {builtIn ? 'Edited' : 'Custom'}
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {entry.idealTemp.min}–{entry.idealTemp.max}°C • {getHumidityRange(entry).min}–{getHumidityRange(entry).max}% RH
+                    {entry.chillingThreshold !== undefined && ` • Chill <${entry.chillingThreshold}°C`} • Ethylene {entry.ethyleneProduction}/{entry.ethyleneSensitivity}
+                    {entry.odorEmitter && ' • Odor emitter'}
+                    {entry.odorAbsorber && ' • Absorbs odors'} • {entry.shelfLife} days
+                    {entry.pricePerKg !== undefined && ` • ₱${entry.pricePerKg}/kg`}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button size="sm" variant="ghost" className="w-8 h-8 p-0" title="Edit" onClick={() => openEditor('edit', entry.name)}>
+                    <Pencil className="w-3 h-3" />
+                  </Button>
+                  <Button size="sm" variant="ghost" className="w-8 h-8 p-0" title="Clone" onClick={() => openEditor('clone', entry.name)}>
+                    <Copy className="w-3 h-3" />
+                  </Button>
+                  {custom && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="w-8 h-8 p-0 text-incompatible-red"
+                      title={builtIn ? 'Revert to built-in values' : 'Delete'}
+                      onClick={() => setDeleteTarget(entry.name)}
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        <p className="mt-3 text-xs text-muted-foreground">
+          Catalog changes are saved in this browser and apply to items added to the load afterwards.
+        </p>
+      </Card>
+
+      <Dialog open={editor !== null} onOpenChange={(open) => !open && setEditor(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {editor?.mode === 'edit' ? 'Edit produce' : editor?.mode === 'clone' ? 'Clone produce' : 'New produce'}
+            </DialogTitle>
+            <DialogDescription>Storage properties used by the compatibility, layout and impact analyses.</DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleSubmit)} className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem className="col-span-2">
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Sayote" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="ethyleneProduction"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Ethylene production</FormLabel>
+                    <FormControl>
+                      <select className={selectClassName} {...field}>
+                        <option value="low">Low</option>
+                        <option value="medium">Medium</option>
+                        <option value="high">High</option>
+                      </select>
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="ethyleneSensitivity"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Ethylene sensitivity</FormLabel>
+                    <FormControl>
+                      <select className={selectClassName} {...field}>
+                        <option value="low">Low</option>
+                        <option value="medium">Medium</option>
+                        <option value="high">High</option>
+                      </select>
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="ethyleneRate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Ethylene rate (µL/kg·h at 20°C)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} step={0.1} placeholder="Auto" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="ethyleneThresholdPpm"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Damage threshold (ppm)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} step={0.01} placeholder="Auto" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {(['odorEmitter', 'odorAbsorber'] as const).map((flag) => (
+                <FormField
+                  key={flag}
+                  control={form.control}
+                  name={flag}
+                  render={({ field }) => (
+                    <FormItem className="flex items-center gap-2 space-y-0">
+                      <FormControl>
+                        <Checkbox checked={field.value === true} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                      </FormControl>
+                      <FormLabel className="font-normal">{flag === 'odorEmitter' ? 'Gives off strong odors' : 'Absorbs odors (taints easily)'}</FormLabel>
+                    </FormItem>
+                  )}
+                />
+              ))}
+              <FormField
+                control={form.control}
+                name="idealTemp.min"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Ideal temp min (°C)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step={0.5} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="idealTemp.max"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Ideal temp max (°C)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step={0.5} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="idealHumidity.min"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Humidity min (% RH)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} max={100} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="idealHumidity.max"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Humidity max (% RH)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} max={100} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="chillingThreshold"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Chilling threshold (°C)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step={0.5} placeholder="Not sensitive" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="freezingPoint"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Freezing point (°C)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step={0.1} {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="bulkDensity"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Packed density (kg/m³)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={50} placeholder={String(DEFAULT_BULK_DENSITY)} {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="pricePerKg"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Price (₱/kg)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} step={1} placeholder={String(DEFAULT_PRICE_PER_KG)} {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="col-span-2 grid grid-cols-4 gap-2">
+                {(
+                  [
+                    ['atmosphere.o2.min', 'O₂ min (%)'],
+                    ['atmosphere.o2.max', 'O₂ max (%)'],
+                    ['atmosphere.co2.min', 'CO₂ min (%)'],
+                    ['atmosphere.co2.max', 'CO₂ max (%)'],
+                  ] as const
+                ).map(([name, label]) => (
+                  <FormField
+                    key={name}
+                    control={form.control}
+                    name={name}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-xs">{label}</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={0} step={0.5} placeholder="None" {...field} value={field.value ?? ''} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+              <FormField
+                control={form.control}
+                name="atmosphere.co2Injury"
+                render={({ field }) => (
+                  <FormItem className="col-span-2">
+                    <FormLabel>High-CO₂ injury</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. brown stain" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="col-span-2 grid grid-cols-4 gap-2">
+                {PACKAGE_UNITS.map((unit) => (
+                  <FormField
+                    key={unit}
+                    control={form.control}
+                    name={`unitWeightsKg.${unit}`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-xs">kg per {QUANTITY_UNITS[unit].label}</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={0} step={0.5} placeholder="Auto" {...field} value={field.value ?? ''} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+              <div className="col-span-2 grid grid-cols-2 gap-2">
+                {(Object.keys(ALIAS_LANGUAGES) as AliasLanguage[]).map((language) => (
+                  <FormField
+                    key={language}
+                    control={form.control}
+                    name={`aliases.${language}`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-xs">{ALIAS_LANGUAGES[language]} names</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder="Comma-separated"
+                            {...field}
+                            value={Array.isArray(field.value) ? field.value.join(', ') : field.value ?? ''}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+              <FormField
+                control={form.control}
+                name="shelfLife"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Shelf life (days)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <DialogFooter className="col-span-2">
+                <Button type="button" variant="outline" onClick={() => setEditor(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" className="bg-fresh-green hover:bg-fresh-green-dark text-white">
+                  Save
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <ProduceCatalogImportDialog open={importOpen} onOpenChange={setImportOpen} catalog={catalog} onImport={onImport} />
+
+      <AlertDialog open={deleteTarget !== null} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {deleteTarget && isBuiltIn(deleteTarget) ? 'Revert to built-in values?' : 'Delete produce entry?'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleteTarget && isBuiltIn(deleteTarget)
+                ? `Your changes to ${deleteTarget} will be discarded.`
+                : `${deleteTarget} will be removed from the catalog. Items already in the load are kept.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (deleteTarget) onDelete(deleteTarget);
+                setDeleteTarget(null);
+              }}
+            >
+              {deleteTarget && isBuiltIn(deleteTarget) ? 'Revert' : 'Delete'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
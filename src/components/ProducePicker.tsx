@@ -0,0 +1,84 @@
+import { useMemo, useState } from 'react';
+import { Check, ChevronsUpDown } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ProduceCatalog, ProduceDefinition, isBuiltInProduce } from '@/lib/produceCatalog';
+import { ALIAS_LANGUAGES, searchProduce } from '@/lib/produceSearch';
+import { cn } from '@/lib/utils';
+
+interface ProducePickerProps {
+  catalog: ProduceCatalog;
+  value: string;
+  onChange: (name: string) => void;
+  lotCounts?: Record<string, number>; // lots of each produce already in the load
+}
+
+// Short ethylene role shown next to each entry
+function ethyleneClass(entry: ProduceDefinition): { label: string; className: string } {
+  if (entry.ethyleneProduction === 'high') return { label: 'Ethylene producer', className: 'bg-warning-orange-light text-warning-orange' };
+  if (entry.ethyleneSensitivity === 'high') return { label: 'Ethylene sensitive', className: 'bg-incompatible-red/10 text-incompatible-red' };
+  return { label: `Ethylene ${entry.ethyleneProduction}/${entry.ethyleneSensitivity}`, className: 'bg-muted text-muted-foreground' };
+}
+
+export function ProducePicker({ catalog, value, onChange, lotCounts = {} }: ProducePickerProps) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const matches = useMemo(() => searchProduce(query, catalog), [query, catalog]);
+
+  const select = (name: string) => {
+    onChange(name);
+    setOpen(false);
+    setQuery('');
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" role="combobox" aria-expanded={open} className="flex-1 justify-between font-normal">
+          <span className={cn('truncate', !value && 'text-muted-foreground')}>{value || 'Select a vegetable...'}</span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] min-w-[320px] p-0" align="start">
+        {/* Ranking comes from searchProduce so aliases and typos are matched the same way everywhere */}
+        <Command shouldFilter={false}>
+          <CommandInput value={query} onValueChange={setQuery} placeholder="Search in English, Filipino, Ilocano or Cebuano..." />
+          <CommandList>
+            <CommandEmpty>No produce matches "{query}".</CommandEmpty>
+            <CommandGroup>
+              {matches.map(({ entry, matchedAlias }) => {
+                const ethylene = ethyleneClass(entry);
+                const lots = lotCounts[entry.name] ?? 0;
+                return (
+                  <CommandItem key={entry.name} value={entry.name} onSelect={() => select(entry.name)} className="flex items-start gap-2">
+                    <Check className={cn('mt-0.5 h-4 w-4 shrink-0', value === entry.name ? 'opacity-100' : 'opacity-0')} />
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium truncate">{entry.name}</span>
+                        {!isBuiltInProduce(entry.name) && <span className="text-xs text-muted-foreground">(custom)</span>}
+                        {lots > 0 && <span className="text-xs text-muted-foreground">— add lot {lots + 1}</span>}
+                      </div>
+                      {matchedAlias && (
+                        <div className="text-xs text-muted-foreground">
+                          {ALIAS_LANGUAGES[matchedAlias.language]}: {matchedAlias.alias}
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex shrink-0 items-center gap-1">
+                      <Badge variant="outline" className="text-xs font-normal">
+                        {entry.idealTemp.min}–{entry.idealTemp.max}°C
+                      </Badge>
+                      <span className={cn('rounded px-1.5 py-0.5 text-xs', ethylene.className)}>{ethylene.label}</span>
+                    </div>
+                  </CommandItem>
+                );
+              })}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,88 @@
+import { AlertTriangle, Route } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { RouteLeg } from '@/lib/deliveryRoute';
+
+interface RouteLegSummaryProps {
+  legs: RouteLeg[];
+}
+
+const formatPpm = (ppm: number) => (ppm >= 10 ? ppm.toFixed(0) : ppm >= 1 ? ppm.toFixed(1) : ppm.toFixed(2));
+
+// Load on board, ethylene and shelf life for each leg of a multi-stop route, with what each stop unloads
+export function RouteLegSummary({ legs }: RouteLegSummaryProps) {
+  if (legs.length === 0) return null;
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-semibold mb-4 text-foreground flex items-center gap-2">
+        <Route className="w-5 h-5" />
+        Route Legs
+      </h3>
+
+      <div className="space-y-3">
+        {legs.map((leg) => {
+          const flagged = leg.shelfLife.filter((s) => s.status !== 'ok').length;
+          return (
+            <div key={leg.index} className="rounded-lg border border-border p-3">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className="font-medium text-foreground">
+                  {leg.from} → {leg.to}
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  {leg.startHour}–{leg.endHour} h
+                </span>
+              </div>
+
+              <div className="mt-2 grid grid-cols-2 sm:grid-cols-4 gap-2 text-xs">
+                <div>
+                  <span className="text-muted-foreground">On board</span>
+                  <p className="font-medium text-foreground">{Math.round(leg.loadKg).toLocaleString()} kg</p>
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Utilization</span>
+                  <p className="font-medium text-foreground">
+                    {Math.round(leg.utilization)}% ({leg.bindingLimit})
+                  </p>
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Ethylene peak</span>
+                  <p className="font-medium text-foreground">{formatPpm(leg.peakEthylenePpm)} ppm</p>
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Shelf life at {leg.to}</span>
+                  <p className="font-medium text-foreground">
+                    {flagged > 0 ? `${flagged} line${flagged === 1 ? '' : 's'} low` : 'All lines OK'}
+                  </p>
+                </div>
+              </div>
+
+              {leg.ethyleneExceeded.length > 0 && (
+                <p className="mt-2 flex items-center gap-1 text-xs text-warning-orange">
+                  <AlertTriangle className="w-3 h-3" />
+                  Above ethylene threshold on this leg: {leg.ethyleneExceeded.join(', ')}
+                </p>
+              )}
+
+              {leg.drops.length > 0 && (
+                <div className="mt-2 flex flex-wrap items-center gap-1">
+                  <span className="text-xs text-muted-foreground">Unloads:</span>
+                  {leg.drops.map((drop) => (
+                    <Badge
+                      key={drop.id}
+                      variant={drop.shelfLife.status === 'ok' ? 'secondary' : 'destructive'}
+                      className="text-xs font-normal"
+                    >
+                      {drop.name} {Math.round(drop.kg).toLocaleString()} kg ·{' '}
+                      {drop.shelfLife.status === 'expired' ? 'expired' : `${drop.shelfLife.remainingAtArrivalDays.toFixed(1)} d left`}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+}
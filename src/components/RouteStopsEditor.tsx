@@ -0,0 +1,153 @@
+import { ArrowDown, ArrowUp, MapPin, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Vegetable } from './VegetableInput';
+import { DeliveryRoute, RouteStop, getRouteDurationHours, newRouteStop, stopName } from '@/lib/deliveryRoute';
+import { formatQuantity, getLineUnit } from '@/lib/loadUnits';
+import { getLineLabel } from '@/lib/lots';
+import { applyMaturity } from '@/lib/maturity';
+
+interface RouteStopsEditorProps {
+  vegetables: Vegetable[];
+  route: DeliveryRoute;
+  onChange: (route: DeliveryRoute) => void;
+}
+
+const inputClass = 'w-full border rounded-md p-2 bg-background text-sm';
+
+// Ordered stops with leg durations and what each one unloads; the last stop takes the rest
+export function RouteStopsEditor({ vegetables, route, onChange }: RouteStopsEditorProps) {
+  const lots = vegetables.map(applyMaturity);
+  const { stops } = route;
+
+  const updateStop = (id: string, patch: Partial<RouteStop>) =>
+    onChange({ ...route, stops: stops.map((stop) => (stop.id === id ? { ...stop, ...patch } : stop)) });
+
+  const moveStop = (index: number, offset: number) => {
+    const next = [...stops];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange({ ...route, stops: next });
+  };
+
+  // Quantity still on board when a stop is reached, so drop inputs cannot exceed it
+  const remainingAt = (index: number, line: Vegetable) =>
+    stops.slice(0, index).reduce((left, stop) => left - Math.min(left, stop.drops[line.id] ?? 0), line.quantity);
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <MapPin className="w-5 h-5" />
+          Delivery Route
+        </h3>
+        <Button size="sm" variant="outline" onClick={() => onChange({ ...route, stops: [...stops, newRouteStop()] })}>
+          <Plus className="w-4 h-4 mr-1" />
+          Add stop
+        </Button>
+      </div>
+      <p className="text-sm text-muted-foreground mb-4">
+        With stops set, the route duration is the sum of the legs and load, ethylene and shelf life are worked out per leg.
+      </p>
+
+      <div className="mb-4">
+        <label className="block text-sm text-muted-foreground mb-1">Origin</label>
+        <input
+          className={inputClass}
+          placeholder="e.g. La Trinidad"
+          value={route.origin}
+          onChange={(e) => onChange({ ...route, origin: e.target.value })}
+        />
+      </div>
+
+      {stops.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Direct trip: no stops before the destination.</p>
+      ) : (
+        <div className="space-y-4">
+          {stops.map((stop, index) => {
+            const last = index === stops.length - 1;
+            return (
+              <div key={stop.id} className="rounded-lg border border-border p-3 space-y-3">
+                <div className="grid sm:grid-cols-[1.5fr_1fr_auto] gap-2 items-end">
+                  <div>
+                    <label className="block text-xs text-muted-foreground mb-1">
+                      Stop {index + 1} (from {stopName(route, index - 1)})
+                    </label>
+                    <input
+                      className={inputClass}
+                      placeholder={last ? 'e.g. Divisoria' : 'e.g. Balintawak'}
+                      value={stop.name}
+                      onChange={(e) => updateStop(stop.id, { name: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-muted-foreground mb-1">Leg (hours)</label>
+                    <input
+                      type="number"
+                      min={0.25}
+                      step={0.25}
+                      className={inputClass}
+                      value={stop.legHours}
+                      onChange={(e) => updateStop(stop.id, { legHours: Math.max(0.25, Number(e.target.value || 0.25)) })}
+                    />
+                  </div>
+                  <div className="flex gap-1">
+                    <Button size="icon" variant="ghost" aria-label="Move stop up" disabled={index === 0} onClick={() => moveStop(index, -1)}>
+                      <ArrowUp className="w-4 h-4" />
+                    </Button>
+                    <Button size="icon" variant="ghost" aria-label="Move stop down" disabled={last} onClick={() => moveStop(index, 1)}>
+                      <ArrowDown className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      aria-label="Remove stop"
+                      onClick={() => onChange({ ...route, stops: stops.filter((s) => s.id !== stop.id) })}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                {last ? (
+                  <p className="text-xs text-muted-foreground">Final stop: unloads everything still on board.</p>
+                ) : vegetables.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">Add vegetables to set what this stop unloads.</p>
+                ) : (
+                  <div className="grid sm:grid-cols-2 gap-2">
+                    {vegetables.map((line, lineIndex) => {
+                      const unit = getLineUnit(line);
+                      const onBoard = remainingAt(index, line);
+                      return (
+                        <div key={line.id} className="flex items-center gap-2">
+                          <span className="text-xs text-foreground flex-1 truncate">{getLineLabel(lots[lineIndex], lots)}</span>
+                          <input
+                            type="number"
+                            min={0}
+                            max={onBoard}
+                            step="any"
+                            aria-label={`Drop at stop ${index + 1}`}
+                            className="w-24 border rounded-md p-1 bg-background text-sm text-right"
+                            value={stop.drops[line.id] ?? 0}
+                            onChange={(e) =>
+                              updateStop(stop.id, {
+                                drops: { ...stop.drops, [line.id]: Math.min(onBoard, Math.max(0, Number(e.target.value || 0))) },
+                              })
+                            }
+                          />
+                          <span className="text-xs text-muted-foreground w-20">
+                            of {formatQuantity(onBoard, unit)}
+                          </span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+          <p className="text-sm text-muted-foreground">Total route: {getRouteDurationHours(route, 0)} h</p>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,84 @@
+import { CalendarClock, CheckCircle, AlertTriangle, XCircle } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Vegetable } from './VegetableInput';
+import { computeArrivalShelfLife, parseLocalDateTime } from '@/lib/arrivalShelfLife';
+import { getLineLabel } from '@/lib/lots';
+
+interface ShelfLifeAtArrivalProps {
+  vegetables: Vegetable[];
+  departureTime?: string | null; // local date-time; unset means departing now
+  routeDurationHours?: number;
+  minRemainingDays?: number;
+}
+
+const formatDateTime = (date: Date) =>
+  date.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+export function ShelfLifeAtArrival({ vegetables, departureTime = null, routeDurationHours = 3, minRemainingDays = 2 }: ShelfLifeAtArrivalProps) {
+  if (vegetables.length === 0) return null;
+
+  const departure = parseLocalDateTime(departureTime) ?? new Date();
+  const results = computeArrivalShelfLife(vegetables, departure, routeDurationHours, minRemainingDays);
+  const flagged = results.filter((r) => r.status !== 'ok').length;
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-foreground flex items-center gap-2">
+          <CalendarClock className="w-5 h-5" />
+          Shelf Life at Arrival
+        </h3>
+        <span className="text-xs text-muted-foreground">
+          Departs {formatDateTime(departure)}{departureTime ? '' : ' (now)'} • Arrives {formatDateTime(results[0].arrival)}
+        </span>
+      </div>
+
+      <div className="space-y-2">
+        {vegetables.map((vegetable, index) => {
+          const result = results[index];
+          return (
+            <div
+              key={vegetable.id}
+              className={`flex items-center justify-between gap-3 p-3 rounded-lg border ${
+                result.status === 'expired'
+                  ? 'bg-incompatible-red/10 border-incompatible-red/20'
+                  : result.status === 'low'
+                  ? 'bg-warning-orange-light border-warning-orange/20'
+                  : 'bg-compatible-green/10 border-compatible-green/20'
+              }`}
+            >
+              <div className="flex items-center gap-3 min-w-0">
+                {result.status === 'expired' ? (
+                  <XCircle className="w-5 h-5 text-incompatible-red flex-shrink-0" />
+                ) : result.status === 'low' ? (
+                  <AlertTriangle className="w-5 h-5 text-warning-orange flex-shrink-0" />
+                ) : (
+                  <CheckCircle className="w-5 h-5 text-compatible-green flex-shrink-0" />
+                )}
+                <div className="min-w-0">
+                  <div className="font-medium text-foreground truncate">{getLineLabel(vegetable, vegetables)}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {result.harvestKnown
+                      ? `${result.ageAtDepartureDays.toFixed(1)} days old at departure`
+                      : 'No harvest date — assumed harvested at departure'}
+                    {' • '}Sell by {formatDateTime(result.sellBy)}
+                  </div>
+                </div>
+              </div>
+              <Badge variant={result.status === 'ok' ? 'secondary' : 'destructive'} className="text-xs whitespace-nowrap">
+                {result.status === 'expired' ? 'Expired on arrival' : `${result.remainingAtArrivalDays.toFixed(1)} days left`}
+              </Badge>
+            </div>
+          );
+        })}
+      </div>
+
+      <p className="mt-3 text-xs text-muted-foreground">
+        {flagged > 0
+          ? `${flagged} line(s) arrive with less than ${minRemainingDays} day(s) of shelf life — sell immediately or reroute.`
+          : `All lines arrive with at least ${minRemainingDays} day(s) of shelf life.`}
+      </p>
+    </Card>
+  );
+}
@@ -0,0 +1,132 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Vegetable } from './VegetableInput';
+import { getLineLabel } from '@/lib/lots';
+import { applyMaturity } from '@/lib/maturity';
+import type { Compartment } from '@/lib/compartmentPlan';
+import { TREATMENTS, TreatmentAssignment, TreatmentId, TreatmentScope } from '@/lib/mitigations';
+
+interface TreatmentSettingsProps {
+  vegetables: Vegetable[];
+  zones: Compartment[]; // plan before treatments, the one zone targets are resolved against
+  assignments: TreatmentAssignment[];
+  onChange: (assignments: TreatmentAssignment[]) => void;
+}
+
+const SCOPE_LABELS: Record<TreatmentScope, string> = {
+  load: 'Whole load',
+  zone: 'Zone',
+  line: 'Load line',
+};
+
+const selectClass = 'w-full border rounded-md p-2 bg-background text-sm';
+
+// Equipment and treatments for the trip, each covering the whole load, one zone or one line
+export function TreatmentSettings({ vegetables, zones, assignments, onChange }: TreatmentSettingsProps) {
+  const lots = vegetables.map(applyMaturity);
+  const zoneLabel = (index: number) =>
+    `Zone ${index + 1} (${Array.from(new Set(zones[index].lines.map((line) => getLineLabel(line, lots)))).join(', ')})`;
+
+  const defaultTarget = (scope: TreatmentScope) =>
+    scope === 'zone' ? (zones.length > 0 ? '1' : undefined) : scope === 'line' ? vegetables[0]?.id : undefined;
+
+  const update = (id: string, patch: Partial<TreatmentAssignment>) =>
+    onChange(assignments.map((a) => (a.id === id ? { ...a, ...patch } : a)));
+
+  const add = () =>
+    onChange([...assignments, { id: crypto.randomUUID(), treatment: 'absorber_sachets', scope: 'load' }]);
+
+  const changeTreatment = (assignment: TreatmentAssignment, treatment: TreatmentId) => {
+    const scopes = TREATMENTS[treatment].scopes;
+    const scope = scopes.includes(assignment.scope) ? assignment.scope : scopes[0];
+    update(assignment.id, { treatment, scope, target: scope === assignment.scope ? assignment.target : defaultTarget(scope) });
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-semibold">Mitigation Equipment &amp; Treatments</h3>
+        <Button size="sm" variant="outline" onClick={add}>
+          <Plus className="w-4 h-4 mr-1" />
+          Add
+        </Button>
+      </div>
+      <p className="text-sm text-muted-foreground mb-4">
+        Treatments lower conflict severity, ethylene build-up and expected waste for the lines they cover.
+      </p>
+
+      {assignments.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No treatments set for this trip.</p>
+      ) : (
+        <div className="space-y-3">
+          {assignments.map((assignment) => {
+            const { scopes, description } = TREATMENTS[assignment.treatment];
+            return (
+              <div key={assignment.id} className="grid sm:grid-cols-[1fr_1fr_1.5fr_auto] gap-2 items-start">
+                <div>
+                  <select
+                    className={selectClass}
+                    value={assignment.treatment}
+                    onChange={(e) => changeTreatment(assignment, e.target.value as TreatmentId)}
+                  >
+                    {(Object.keys(TREATMENTS) as TreatmentId[]).map((id) => (
+                      <option key={id} value={id}>
+                        {TREATMENTS[id].label}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="mt-1 text-xs text-muted-foreground">{description}</p>
+                </div>
+                <select
+                  className={selectClass}
+                  value={assignment.scope}
+                  onChange={(e) => {
+                    const scope = e.target.value as TreatmentScope;
+                    update(assignment.id, { scope, target: defaultTarget(scope) });
+                  }}
+                >
+                  {scopes.map((scope) => (
+                    <option key={scope} value={scope}>
+                      {SCOPE_LABELS[scope]}
+                    </option>
+                  ))}
+                </select>
+                {assignment.scope === 'load' ? (
+                  <div className="p-2 text-sm text-muted-foreground">All lines</div>
+                ) : (
+                  <select
+                    className={selectClass}
+                    value={assignment.target ?? ''}
+                    onChange={(e) => update(assignment.id, { target: e.target.value || undefined })}
+                  >
+                    <option value="">Choose…</option>
+                    {assignment.scope === 'zone'
+                      ? zones.map((_, index) => (
+                          <option key={index} value={String(index + 1)}>
+                            {zoneLabel(index)}
+                          </option>
+                        ))
+                      : lots.map((line) => (
+                          <option key={line.id} value={line.id}>
+                            {getLineLabel(line, lots)}
+                          </option>
+                        ))}
+                  </select>
+                )}
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  aria-label="Remove treatment"
+                  onClick={() => onChange(assignments.filter((a) => a.id !== assignment.id))}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </Card>
+  );
+}
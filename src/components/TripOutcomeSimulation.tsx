@@ -0,0 +1,92 @@
+import { Dices } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { DelayOutcome, Percentiles } from '@/lib/delaySimulation';
+import { formatPeso } from '@/lib/produceCatalog';
+
+interface TripOutcomeSimulationProps {
+  outcome: DelayOutcome;
+  hasDelays: boolean; // false when no route or leg has a delay distribution set
+  stopNames?: string[]; // per leg, to tell apart drops of one line at different stops
+}
+
+const ROWS: { label: string; pick: (o: DelayOutcome) => Percentiles; format: (v: number) => string }[] = [
+  { label: 'Trip duration', pick: (o) => o.durationHours, format: (v) => `${v.toFixed(1)} h` },
+  { label: 'Shelf life left at delivery', pick: (o) => o.quality, format: (v) => `${v.toFixed(0)}%` },
+  { label: 'Waste', pick: (o) => o.wastePct, format: (v) => `${v.toFixed(1)}%` },
+  { label: 'Loss', pick: (o) => o.lossValue, format: formatPeso },
+];
+
+// Monte Carlo trip outcomes: the planned figure next to the median and the 1-in-10 bad case
+export function TripOutcomeSimulation({ outcome, hasDelays, stopNames }: TripOutcomeSimulationProps) {
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-semibold text-foreground flex items-center gap-2">
+          <Dices className="w-5 h-5" />
+          Trip Outcomes with Delays
+        </h3>
+        {hasDelays && (
+          <Badge variant="secondary" className="text-xs">
+            {outcome.trials} trials · {Math.round(outcome.delayedShare * 100)}% delayed
+          </Badge>
+        )}
+      </div>
+
+      {!hasDelays ? (
+        <p className="text-sm text-muted-foreground">
+          Set delay risks for the route or its legs under Add Trucks to see P50/P90 arrival quality and waste.
+        </p>
+      ) : (
+        <>
+          <p className="text-sm text-muted-foreground mb-4">
+            P50 is the typical trip; P90 is the bad case that 9 in 10 trips do better than.
+          </p>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="py-1 pr-2 font-normal"></th>
+                  <th className="py-1 px-2 font-normal text-right">As planned</th>
+                  <th className="py-1 px-2 font-normal text-right">P50</th>
+                  <th className="py-1 pl-2 font-normal text-right">P90</th>
+                </tr>
+              </thead>
+              <tbody>
+                {ROWS.map(({ label, pick, format }) => {
+                  const values = pick(outcome);
+                  return (
+                    <tr key={label} className="border-t border-border">
+                      <td className="py-1 pr-2 text-foreground">{label}</td>
+                      <td className="py-1 px-2 text-right text-muted-foreground">{format(values.nominal)}</td>
+                      <td className="py-1 px-2 text-right text-foreground">{format(values.p50)}</td>
+                      <td className="py-1 pl-2 text-right font-medium text-foreground">{format(values.p90)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <h4 className="mt-4 mb-2 text-sm font-medium text-foreground">Days left at delivery</h4>
+          <div className="space-y-1">
+            {outcome.lines.map((line) => (
+              <div key={line.id} className="flex items-center justify-between gap-2 text-xs">
+                <span className="text-foreground">
+                  {line.name}
+                  {stopNames?.[line.leg] && <span className="text-muted-foreground"> → {stopNames[line.leg]}</span>}
+                </span>
+                <span className="text-muted-foreground">
+                  P50 {line.remainingDays.p50.toFixed(1)} d · P90 {line.remainingDays.p90.toFixed(1)} d
+                  {line.expiredShare > 0 && (
+                    <span className="text-error-red"> · expired in {Math.round(line.expiredShare * 100)}% of trials</span>
+                  )}
+                </span>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </Card>
+  );
+}
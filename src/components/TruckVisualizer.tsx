@@ -1,11 +1,17 @@
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Vegetable } from './VegetableInput';
+import { formatQuantity, getLineUnit, getLineWeightKg } from '@/lib/loadUnits';
+import { groupByProduce } from '@/lib/lots';
+import { MATURITY_STAGES } from '@/lib/maturity';
+import { CompartmentPlan, planCompartments } from '@/lib/compartmentPlan';
+import type { EvaluationOptions } from '@/lib/compatibilityRules';
 
 interface TruckVisualizerProps {
   vegetables: Vegetable[];
   truckType?: 'ambient' | 'refrigerated' | 'ventilated';
   truckSize?: 'small' | 'medium' | 'large';
+  evaluation?: EvaluationOptions; // applied mitigations and scenario treatments
 }
 
 interface LoadZone {
@@ -16,75 +22,29 @@ interface LoadZone {
   color: string;
 }
 
-function optimizeLoading(vegetables: Vegetable[]): LoadZone[] {
-  if (vegetables.length === 0) return [];
-  
-  // Group vegetables by temperature requirements
-  const temperatureGroups = vegetables.reduce((groups, veg) => {
-    const tempKey = `${veg.idealTemp.min}-${veg.idealTemp.max}`;
-    if (!groups[tempKey]) {
-      groups[tempKey] = [];
-    }
-    groups[tempKey].push(veg);
-    return groups;
-  }, {} as Record<string, Vegetable[]>);
-  
-  // Separate high ethylene producers from sensitive vegetables
-  const zones: LoadZone[] = [];
-  let zoneIndex = 0;
-  
-  Object.entries(temperatureGroups).forEach(([tempRange, veggies]) => {
-    const highEthyleneProducers = veggies.filter(v => v.ethyleneProduction === 'high');
-    const ethyleneSensitive = veggies.filter(v => v.ethyleneSensitivity === 'high');
-    const others = veggies.filter(v => v.ethyleneProduction !== 'high' && v.ethyleneSensitivity !== 'high');
-    
-    // Create separate zones if needed
-    if (highEthyleneProducers.length > 0 && ethyleneSensitive.length > 0) {
-      // Zone for high ethylene producers
-      zones.push({
-        id: `zone-${zoneIndex++}`,
-        vegetables: highEthyleneProducers,
-        temperature: `${tempRange}°C`,
-        position: { x: 10, y: 10 + zones.length * 120, width: 180, height: 100 },
-        color: 'bg-warning-orange/20 border-warning-orange/40'
-      });
-      
-      // Zone for ethylene sensitive
-      zones.push({
-        id: `zone-${zoneIndex++}`,
-        vegetables: ethyleneSensitive,
-        temperature: `${tempRange}°C`,
-        position: { x: 210, y: 10 + (zones.length) * 120, width: 180, height: 100 },
-        color: 'bg-fresh-green-light/40 border-fresh-green/40'
-      });
-      
-      // Zone for others if any
-      if (others.length > 0) {
-        zones.push({
-          id: `zone-${zoneIndex++}`,
-          vegetables: others,
-          temperature: `${tempRange}°C`,
-          position: { x: 410, y: 10 + (zones.length) * 120, width: 180, height: 100 },
-          color: 'bg-secondary/60 border-border'
-        });
-      }
-    } else {
-      // Single zone for all vegetables in this temperature group
-      zones.push({
-        id: `zone-${zoneIndex++}`,
-        vegetables: veggies,
-        temperature: `${tempRange}°C`,
-        position: { x: 10 + (zones.length % 3) * 200, y: 10 + Math.floor(zones.length / 3) * 120, width: 180, height: 100 },
-        color: 'bg-fresh-green-light/40 border-fresh-green/40'
-      });
-    }
-  });
-  
-  return zones;
+const ZONE_COLORS = [
+  'bg-fresh-green-light/40 border-fresh-green/40',
+  'bg-warning-orange/20 border-warning-orange/40',
+  'bg-secondary/60 border-border',
+  'bg-muted/60 border-muted-foreground/40',
+];
+
+// One zone per compartment of the minimum conflict-free plan
+function optimizeLoading(plan: CompartmentPlan): LoadZone[] {
+  return plan.compartments.map((compartment, index) => ({
+    id: `zone-${index + 1}`,
+    vegetables: compartment.lines,
+    temperature: compartment.temperature.min === compartment.temperature.max
+      ? `${compartment.temperature.min}°C`
+      : `${compartment.temperature.min}-${compartment.temperature.max}°C`,
+    position: { x: 10 + (index % 3) * 200, y: 10 + Math.floor(index / 3) * 120, width: 180, height: 100 },
+    color: ZONE_COLORS[index % ZONE_COLORS.length],
+  }));
 }
 
-export function TruckVisualizer({ vegetables, truckType = 'refrigerated', truckSize = 'medium' }: TruckVisualizerProps) {
-  const loadZones = optimizeLoading(vegetables);
+export function TruckVisualizer({ vegetables, truckType = 'refrigerated', truckSize = 'medium', evaluation = {} }: TruckVisualizerProps) {
+  const plan = planCompartments(vegetables, evaluation);
+  const loadZones = optimizeLoading(plan);
   
   if (vegetables.length === 0) {
     return (
@@ -125,11 +85,24 @@ export function TruckVisualizer({ vegetables, truckType = 'refrigerated', truckS
               Zone {zone.id.split('-')[1]} • {zone.temperature}
             </div>
             <div className="space-y-1">
-              {zone.vegetables.map((veg, index) => (
-                <div key={`${veg.id}-${index}`} className="flex items-center justify-between">
-                  <span className="text-xs text-foreground truncate">{veg.name}</span>
-                  <Badge variant="outline" className="text-xs px-1 py-0">
-                    {veg.quantity}
+              {/* Lots of the same produce share a row; a single lot keeps its own quantity */}
+              {groupByProduce(zone.vegetables).map(({ name, lots }) => (
+                <div key={name} className="flex items-center justify-between">
+                  <span className="text-xs text-foreground truncate">
+                    {name}
+                    {lots.length === 1 && lots[0].maturity && (
+                      <span className="text-muted-foreground"> ({MATURITY_STAGES[lots[0].maturity].label})</span>
+                    )}
+                    {lots.length > 1 && <span className="text-muted-foreground"> ({lots.length} lots)</span>}
+                  </span>
+                  <Badge
+                    variant="outline"
+                    className="text-xs px-1 py-0"
+                    title={lots.map((lot) => `${lot.lotCode ?? name}: ${formatQuantity(lot.quantity, getLineUnit(lot))}`).join('\n')}
+                  >
+                    {lots.length === 1
+                      ? formatQuantity(lots[0].quantity, getLineUnit(lots[0]))
+                      : `${Math.round(lots.reduce((sum, lot) => sum + getLineWeightKg(lot), 0))} kg`}
                   </Badge>
                 </div>
               ))}
@@ -146,6 +119,11 @@ export function TruckVisualizer({ vegetables, truckType = 'refrigerated', truckS
                 <div className="w-2 h-2 bg-fresh-green rounded-full" title="Ethylene sensitive" />
               </div>
             )}
+            {zone.vegetables.some(v => v.odorEmitter) && (
+              <div className="absolute top-1 right-7">
+                <div className="w-2 h-2 bg-muted-foreground rounded-full" title="Odor emitter" />
+              </div>
+            )}
           </div>
         ))}
         
@@ -160,15 +138,39 @@ export function TruckVisualizer({ vegetables, truckType = 'refrigerated', truckS
               <div className="w-2 h-2 bg-fresh-green rounded-full" />
               <span>Ethylene sensitive</span>
             </div>
+            <div className="flex items-center gap-2">
+              <div className="w-2 h-2 bg-muted-foreground rounded-full" />
+              <span>Odor emitter</span>
+            </div>
           </div>
         </div>
       </div>
       
-      {/* Loading tips */}
-      <div className="mt-4 text-xs text-muted-foreground space-y-1">
-        <p>• Zones are separated by temperature and ethylene compatibility</p>
-        <p>• High ethylene producers are isolated from sensitive vegetables</p>
-        <p>• Maintain recommended temperature ranges for optimal freshness</p>
+      {/* Recommended compartment plan */}
+      <div className="mt-4 space-y-2">
+        <h4 className="text-sm font-medium text-foreground">
+          Recommended compartment plan: {plan.compartments.length} compartment{plan.compartments.length === 1 ? '' : 's'}
+          {!plan.optimal && <span className="text-xs font-normal text-muted-foreground"> (near-optimal)</span>}
+        </h4>
+        {plan.compartments.map((compartment, index) => (
+          <div key={index} className="text-xs text-muted-foreground">
+            <span className="font-medium text-foreground">Zone {index + 1}</span> • {loadZones[index].temperature} •{' '}
+            {compartment.humidity.min === compartment.humidity.max
+              ? `${compartment.humidity.min}% RH`
+              : `${compartment.humidity.min}–${compartment.humidity.max}% RH`}{' '}
+            • {compartment.lines.length} line(s)
+            {compartment.notes.length > 0 && (
+              <ul className="ml-4 list-disc">
+                {compartment.notes.map((note) => (
+                  <li key={note}>{note}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+        {plan.compartments.length === 1 && (
+          <p className="text-xs text-muted-foreground">Every line shares a temperature and humidity band with no conflicts, so the load rides together.</p>
+        )}
       </div>
     </Card>
   );
@@ -12,57 +12,67 @@ import {
   AlertDialogCancel,
   AlertDialogAction,
 } from '@/components/ui/alert-dialog';
+import { ProducePicker } from './ProducePicker';
+import { VEGETABLE_DATABASE, ProduceCatalog } from '@/lib/produceCatalog';
+import { MATURITY_STAGES, MaturityStage } from '@/lib/maturity';
+import { LOT_GRADES, LotGrade, groupByProduce, nextLotCode } from '@/lib/lots';
+import type { AliasLanguage } from '@/lib/produceSearch';
+import { PackageUnit, QUANTITY_UNITS, QuantityUnit, getLineUnit, getLineVolumeM3, getLineWeightKg } from '@/lib/loadUnits';
 
 export interface Vegetable {
   id: string;
   name: string;
-  quantity: number;
+  quantity: number; // counted in `unit`
+  unit?: QuantityUnit; // defaults to kg
+  bulkDensity?: number; // packed kg/m³, used for loose-kg volume and package weights
+  unitWeightsKg?: Partial<Record<PackageUnit, number>>; // kg per package when it differs from the density estimate
+  maturity?: MaturityStage; // lot ripeness; unset keeps catalog ethylene and shelf-life values
+  lotCode?: string; // distinguishes several lots of the same produce
+  harvestDate?: string; // local date-time of harvest (older scenarios may hold a date only)
+  grade?: LotGrade;
   ethyleneProduction: 'low' | 'medium' | 'high';
   ethyleneSensitivity: 'low' | 'medium' | 'high';
+  ethyleneRate?: number; // µL C2H4/kg·h at 20°C; unset uses the typical rate for ethyleneProduction
+  ethyleneThresholdPpm?: number; // cargo-air ppm where damage starts; unset uses the typical level for ethyleneSensitivity
   idealTemp: { min: number; max: number };
+  idealHumidity?: { min: number; max: number }; // % relative humidity
+  chillingThreshold?: number; // °C below which chilling injury starts; unset when not chilling-sensitive
+  freezingPoint?: number; // °C highest freezing point of the tissue
+  odorEmitter?: boolean; // gives off strong odors (onions, garlic, ginger)
+  odorAbsorber?: boolean; // picks up odors and taints (cabbage, celery, leafy greens)
+  atmosphere?: {
+    // CA/MAP range in % by volume; lower O2 or higher CO2 than this damages the produce
+    o2: { min: number; max: number };
+    co2: { min: number; max: number };
+    co2Injury?: string; // symptom of CO2 damage, e.g. brown stain
+  };
+  pricePerKg?: number; // market value in PHP, weights quality loss when loads need a compromise setpoint
+  aliases?: Partial<Record<AliasLanguage, string[]>>; // local names matched by the produce picker
   shelfLife: number; // days
 }
 
-const VEGETABLE_DATABASE: Record<string, Omit<Vegetable, 'id' | 'quantity'>> = {
-  'Carrots': { name: 'Carrots', ethyleneProduction: 'low', ethyleneSensitivity: 'medium', idealTemp: { min: 0, max: 2 }, shelfLife: 21 },
-  'Cabbage': { name: 'Cabbage', ethyleneProduction: 'low', ethyleneSensitivity: 'medium', idealTemp: { min: 0, max: 2 }, shelfLife: 20 },
-  'Broccoli': { name: 'Broccoli', ethyleneProduction: 'low', ethyleneSensitivity: 'high', idealTemp: { min: 0, max: 2 }, shelfLife: 7 },
-  'Cauliflower': { name: 'Cauliflower', ethyleneProduction: 'low', ethyleneSensitivity: 'high', idealTemp: { min: 0, max: 2 }, shelfLife: 10 },
-  'Lettuce': { name: 'Lettuce', ethyleneProduction: 'low', ethyleneSensitivity: 'high', idealTemp: { min: 0, max: 2 }, shelfLife: 10 },
-  'Celery': { name: 'Celery', ethyleneProduction: 'low', ethyleneSensitivity: 'high', idealTemp: { min: 0, max: 2 }, shelfLife: 14 },
-  'Chinese cabbage': { name: 'Chinese cabbage', ethyleneProduction: 'low', ethyleneSensitivity: 'medium', idealTemp: { min: 0, max: 2 }, shelfLife: 14 },
-  'Eggplant': { name: 'Eggplant', ethyleneProduction: 'low', ethyleneSensitivity: 'high', idealTemp: { min: 10, max: 12 }, shelfLife: 7 },
-  'Tomatoes': { name: 'Tomatoes', ethyleneProduction: 'high', ethyleneSensitivity: 'medium', idealTemp: { min: 12, max: 15 }, shelfLife: 7 },
-  'Okra': { name: 'Okra', ethyleneProduction: 'low', ethyleneSensitivity: 'high', idealTemp: { min: 7, max: 10 }, shelfLife: 5 },
-  'Ampalaya': { name: 'Ampalaya', ethyleneProduction: 'low', ethyleneSensitivity: 'medium', idealTemp: { min: 10, max: 12 }, shelfLife: 5 },
-  'Sitaw': { name: 'Sitaw', ethyleneProduction: 'low', ethyleneSensitivity: 'high', idealTemp: { min: 7, max: 10 }, shelfLife: 5 },
-  'Patola': { name: 'Patola', ethyleneProduction: 'low', ethyleneSensitivity: 'medium', idealTemp: { min: 10, max: 12 }, shelfLife: 7 },
-  'Kalabasa': { name: 'Kalabasa', ethyleneProduction: 'low', ethyleneSensitivity: 'low', idealTemp: { min: 10, max: 12 }, shelfLife: 30 },
-  'Pechay': { name: 'Pechay', ethyleneProduction: 'low', ethyleneSensitivity: 'medium', idealTemp: { min: 0, max: 2 }, shelfLife: 7 },
-  'Potatoes': { name: 'Potatoes', ethyleneProduction: 'low', ethyleneSensitivity: 'low', idealTemp: { min: 4, max: 8 }, shelfLife: 60 },
-  'Onions': { name: 'Onions', ethyleneProduction: 'low', ethyleneSensitivity: 'low', idealTemp: { min: 0, max: 4 }, shelfLife: 90 },
-  'Peppers': { name: 'Peppers', ethyleneProduction: 'low', ethyleneSensitivity: 'medium', idealTemp: { min: 7, max: 10 }, shelfLife: 14 },
-};
-
 interface VegetableInputProps {
   vegetables: Vegetable[];
   onVegetablesChange: (vegetables: Vegetable[]) => void;
+  catalog?: ProduceCatalog;
 }
 
-export function VegetableInput({ vegetables, onVegetablesChange }: VegetableInputProps) {
+export function VegetableInput({ vegetables, onVegetablesChange, catalog = VEGETABLE_DATABASE }: VegetableInputProps) {
   const [selectedVegetable, setSelectedVegetable] = useState<string>('');
   const [confirmOpen, setConfirmOpen] = useState(false);
   const [targetVegId, setTargetVegId] = useState<string | null>(null);
 
   const addVegetable = () => {
-    if (!selectedVegetable || vegetables.find(v => v.name === selectedVegetable)) return;
+    if (!selectedVegetable) return;
 
-    const vegetableData = VEGETABLE_DATABASE[selectedVegetable];
+    const vegetableData = catalog[selectedVegetable];
     if (!vegetableData) return;
 
     const newVegetable: Vegetable = {
       id: Math.random().toString(36).substr(2, 9),
       quantity: 1,
+      unit: 'crate',
+      lotCode: nextLotCode(selectedVegetable, vegetables),
       ...vegetableData
     };
 
@@ -78,6 +88,15 @@ export function VegetableInput({ vegetables, onVegetablesChange }: VegetableInpu
     );
   };
 
+  const setQuantity = (id: string, quantity: number) => {
+    if (!Number.isFinite(quantity) || quantity <= 0) return;
+    onVegetablesChange(vegetables.map(v => (v.id === id ? { ...v, quantity } : v)));
+  };
+
+  const updateLine = (id: string, changes: Partial<Vegetable>) => {
+    onVegetablesChange(vegetables.map(v => (v.id === id ? { ...v, ...changes } : v)));
+  };
+
   const handleDecrement = (id: string) => {
     const veg = vegetables.find(v => v.id === id);
     if (!veg) return;
@@ -95,22 +114,15 @@ export function VegetableInput({ vegetables, onVegetablesChange }: VegetableInpu
         <h3 className="text-lg font-semibold mb-4 text-foreground">Add Vegetables to Load</h3>
 
         <div className="flex gap-2 mb-4">
-          <select
+          <ProducePicker
+            catalog={catalog}
             value={selectedVegetable}
-            onChange={(e) => setSelectedVegetable(e.target.value)}
-            className="flex-1 px-3 py-2 border border-input rounded-md bg-background text-foreground focus:ring-2 focus:ring-primary focus:border-transparent"
-          >
-            <option value="">Select a vegetable...</option>
-            {Object.keys(VEGETABLE_DATABASE)
-              .filter(name => !vegetables.find(v => v.name === name))
-              .map(name => (
-                <option key={name} value={name}>{name}</option>
-              ))
-            }
-          </select>
+            onChange={setSelectedVegetable}
+            lotCounts={Object.fromEntries(groupByProduce(vegetables).map(({ name, lots }) => [name, lots.length]))}
+          />
           <Button
             onClick={addVegetable}
-            disabled={!selectedVegetable || vegetables.find(v => v.name === selectedVegetable) !== undefined}
+            disabled={!selectedVegetable}
             className="bg-fresh-green hover:bg-fresh-green-dark text-white"
           >
             <Plus className="w-4 h-4" />
@@ -119,16 +131,74 @@ export function VegetableInput({ vegetables, onVegetablesChange }: VegetableInpu
 
         <div className="space-y-2">
           {vegetables.map((vegetable) => (
-            <div key={vegetable.id} className="flex items-center justify-between p-3 bg-card rounded-lg border border-border">
-              <span className="font-medium text-foreground">{vegetable.name}</span>
+            <div key={vegetable.id} className="flex items-center justify-between gap-3 p-3 bg-card rounded-lg border border-border">
+              <div className="min-w-0">
+                <span className="font-medium text-foreground">{vegetable.name}</span>
+                <div className="text-xs text-muted-foreground">
+                  {Math.round(getLineWeightKg(vegetable))} kg • {getLineVolumeM3(vegetable).toFixed(2)} m³
+                </div>
+                <div className="mt-1 flex flex-wrap items-center gap-1">
+                  <input
+                    value={vegetable.lotCode ?? ''}
+                    onChange={(e) => updateLine(vegetable.id, { lotCode: e.target.value })}
+                    placeholder="Lot code"
+                    title="Lot code"
+                    className="w-20 px-2 py-0.5 border border-input rounded-md bg-background text-foreground text-xs"
+                  />
+                  <select
+                    value={vegetable.grade ?? ''}
+                    onChange={(e) => updateLine(vegetable.id, { grade: (e.target.value || undefined) as LotGrade | undefined })}
+                    className="px-2 py-0.5 border border-input rounded-md bg-background text-foreground text-xs"
+                    title="Grade"
+                  >
+                    <option value="">Grade</option>
+                    {LOT_GRADES.map(grade => (
+                      <option key={grade} value={grade}>Grade {grade}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="datetime-local"
+                    value={vegetable.harvestDate && vegetable.harvestDate.length === 10 ? `${vegetable.harvestDate}T00:00` : vegetable.harvestDate ?? ''}
+                    onChange={(e) => updateLine(vegetable.id, { harvestDate: e.target.value || undefined })}
+                    title="Harvest date and time"
+                    className="px-2 py-0.5 border border-input rounded-md bg-background text-foreground text-xs"
+                  />
+                  <select
+                    value={vegetable.maturity ?? ''}
+                    onChange={(e) => updateLine(vegetable.id, { maturity: (e.target.value || undefined) as MaturityStage | undefined })}
+                    className="px-2 py-0.5 border border-input rounded-md bg-background text-foreground text-xs"
+                    title="Maturity stage"
+                  >
+                    <option value="">Stage: as catalogued</option>
+                    {(Object.keys(MATURITY_STAGES) as MaturityStage[]).map(stage => (
+                      <option key={stage} value={stage}>{MATURITY_STAGES[stage].label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
               <div className="flex items-center gap-2">
                 <Button size="sm" variant="outline" onClick={() => handleDecrement(vegetable.id)} className="w-8 h-8 p-0">
                   <Minus className="w-3 h-3" />
                 </Button>
-                <span className="w-8 text-center text-foreground">{vegetable.quantity}</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={vegetable.quantity}
+                  onChange={(e) => setQuantity(vegetable.id, Number(e.target.value))}
+                  className="w-16 px-1 py-1 text-center border border-input rounded-md bg-background text-foreground"
+                />
                 <Button size="sm" variant="outline" onClick={() => updateQuantity(vegetable.id, 1)} className="w-8 h-8 p-0">
                   <Plus className="w-3 h-3" />
                 </Button>
+                <select
+                  value={getLineUnit(vegetable)}
+                  onChange={(e) => updateLine(vegetable.id, { unit: e.target.value as QuantityUnit })}
+                  className="px-2 py-1 border border-input rounded-md bg-background text-foreground text-sm"
+                >
+                  {(Object.keys(QUANTITY_UNITS) as QuantityUnit[]).map(unit => (
+                    <option key={unit} value={unit}>{QUANTITY_UNITS[unit].plural}</option>
+                  ))}
+                </select>
               </div>
             </div>
           ))}
@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  BUILT_IN_POLICIES,
+  PolicyProfile,
+  isBuiltInPolicy,
+  loadCustomPolicies,
+  saveCustomPolicies,
+} from '@/lib/policyProfiles';
+
+export function usePolicyProfiles() {
+  const [customPolicies, setCustomPolicies] = useState<Record<string, PolicyProfile>>(() => loadCustomPolicies());
+
+  useEffect(() => {
+    saveCustomPolicies(customPolicies);
+  }, [customPolicies]);
+
+  // Built-ins first; a user profile with a built-in id overrides it
+  const policies = useMemo<Record<string, PolicyProfile>>(() => ({ ...BUILT_IN_POLICIES, ...customPolicies }), [customPolicies]);
+
+  const savePolicy = useCallback((profile: PolicyProfile) => {
+    setCustomPolicies((prev) => ({ ...prev, [profile.id]: profile }));
+  }, []);
+
+  // Removes a user profile. For an edited built-in this reverts to the shipped settings.
+  const deletePolicy = useCallback((id: string) => {
+    setCustomPolicies((prev) => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+  }, []);
+
+  return {
+    policies,
+    customPolicies,
+    savePolicy,
+    deletePolicy,
+    isBuiltIn: isBuiltInPolicy,
+  };
+}
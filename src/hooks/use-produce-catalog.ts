@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  VEGETABLE_DATABASE,
+  ProduceCatalog,
+  ProduceDefinition,
+  isBuiltInProduce,
+  loadCustomProduce,
+  saveCustomProduce,
+} from '@/lib/produceCatalog';
+
+export function useProduceCatalog() {
+  const [customProduce, setCustomProduce] = useState<ProduceCatalog>(() => loadCustomProduce());
+
+  useEffect(() => {
+    saveCustomProduce(customProduce);
+  }, [customProduce]);
+
+  // Built-ins first so the selector keeps its familiar order; user entries override by name
+  const catalog = useMemo<ProduceCatalog>(() => ({ ...VEGETABLE_DATABASE, ...customProduce }), [customProduce]);
+
+  // Create or update an entry. Passing the previous name lets an edit rename a user entry in place.
+  const saveProduce = useCallback((definition: ProduceDefinition, previousName?: string) => {
+    setCustomProduce((prev) => {
+      const next = { ...prev };
+      if (previousName && previousName !== definition.name) delete next[previousName];
+      next[definition.name] = definition;
+      return next;
+    });
+  }, []);
+
+  // Bulk save from a catalog import; entries with an existing name replace it
+  const importProduce = useCallback((definitions: ProduceDefinition[]) => {
+    setCustomProduce((prev) => {
+      const next = { ...prev };
+      definitions.forEach((definition) => {
+        next[definition.name] = definition;
+      });
+      return next;
+    });
+  }, []);
+
+  // Removes a user entry. For an overridden built-in this reverts to the shipped values.
+  const deleteProduce = useCallback((name: string) => {
+    setCustomProduce((prev) => {
+      const next = { ...prev };
+      delete next[name];
+      return next;
+    });
+  }, []);
+
+  return {
+    catalog,
+    customProduce,
+    saveProduce,
+    importProduce,
+    deleteProduce,
+    isBuiltIn: isBuiltInProduce,
+  };
+}
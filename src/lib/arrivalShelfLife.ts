@@ -0,0 +1,56 @@
+import type { Vegetable } from '@/components/VegetableInput';
+import { applyMaturity } from '@/lib/maturity';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ArrivalShelfLife {
+  id: string;
+  harvestKnown: boolean; // false when the line has no harvest date and departure is used instead
+  ageAtDepartureDays: number;
+  remainingAtArrivalDays: number;
+  arrival: Date;
+  sellBy: Date;
+  status: 'ok' | 'low' | 'expired';
+}
+
+// Accepts the date-only values older scenarios saved as well as local date-times
+export function parseLocalDateTime(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T00:00` : value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// Value for a datetime-local input in the browser's timezone
+export function toLocalDateTimeInput(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+// Shelf life left when each line reaches the market, counted from harvest using the lot-adjusted shelf life
+export function computeArrivalShelfLife(
+  lines: Vegetable[],
+  departure: Date,
+  routeDurationHours: number,
+  minRemainingDays: number
+): ArrivalShelfLife[] {
+  const arrival = new Date(departure.getTime() + routeDurationHours * 60 * 60 * 1000);
+
+  return lines.map((line) => {
+    const lot = applyMaturity(line);
+    const harvest = parseLocalDateTime(line.harvestDate);
+    const harvestedAt = harvest ?? departure;
+    const ageAtDepartureDays = Math.max(0, (departure.getTime() - harvestedAt.getTime()) / DAY_MS);
+    const sellBy = new Date(harvestedAt.getTime() + lot.shelfLife * DAY_MS);
+    const remainingAtArrivalDays = (sellBy.getTime() - arrival.getTime()) / DAY_MS;
+
+    return {
+      id: line.id,
+      harvestKnown: harvest !== null,
+      ageAtDepartureDays,
+      remainingAtArrivalDays,
+      arrival,
+      sellBy,
+      status: remainingAtArrivalDays <= 0 ? 'expired' : remainingAtArrivalDays < minRemainingDays ? 'low' : 'ok',
+    };
+  });
+}
@@ -0,0 +1,106 @@
+import type { Vegetable } from '@/components/VegetableInput';
+import { applyMaturity } from '@/lib/maturity';
+import { getLineLabel, uniqueProduceNames } from '@/lib/lots';
+import { EvaluationOptions } from '@/lib/compatibilityRules';
+import { planCompartments } from '@/lib/compartmentPlan';
+
+type GasRange = { min: number; max: number };
+
+export const AIR_O2_PCT = 21;
+
+// Sealed MAP bags settle near this CO2 level from the produce's own respiration
+export const MAP_EQUILIBRIUM_CO2_PCT = 5;
+
+export interface AtmosphereSetting {
+  o2: GasRange; // % by volume
+  co2: GasRange;
+  controlled: boolean; // false when the group is best kept in normal air
+}
+
+export interface AtmosphereZone {
+  zone: number | null; // compartment number, null for the whole load
+  lineIds: string[];
+  names: string[];
+  setting: AtmosphereSetting;
+  limitedBy: string[]; // items whose tolerance narrowed the setting, or that have no CA data
+  withoutBenefit: string[]; // items with CA data whose beneficial range the setting misses
+}
+
+export interface Co2DamageFlag {
+  id: string;
+  name: string; // line label
+  co2Max: number; // highest CO2 the item tolerates, %
+  exposurePct: number; // CO2 it would see, %
+  injury: string;
+  source: 'map' | 'shared_zone'; // in its own MAP bag, or zoned with items that want more CO2
+}
+
+export interface AtmospherePlan {
+  load: AtmosphereZone;
+  zones: AtmosphereZone[]; // one per compartment of the compartment plan
+  flags: Co2DamageFlag[];
+}
+
+const AIR: AtmosphereSetting = { o2: { min: AIR_O2_PCT, max: AIR_O2_PCT }, co2: { min: 0, max: 0 }, controlled: false };
+
+const overlaps = (a: GasRange, b: GasRange) => a.min <= b.max && b.min <= a.max;
+
+export const formatAtmosphere = (setting: AtmosphereSetting) => {
+  if (!setting.controlled) return 'Normal air';
+  const range = (g: GasRange) => (g.min === g.max ? `${g.min}%` : `${g.min}–${g.max}%`);
+  return `O₂ ${range(setting.o2)}, CO₂ ${range(setting.co2)}`;
+};
+
+// Safe setting for items riding together: O2 no lower and CO2 no higher than any member tolerates.
+// When members want different ranges, the most sensitive one sets the limit and the others lose benefit.
+function recommendZone(lots: Vegetable[], zone: number | null): AtmosphereZone {
+  const lineIds = lots.map((lot) => lot.id);
+  const names = uniqueProduceNames(lots);
+  const withData = lots.filter((lot) => lot.atmosphere);
+  const unknown = uniqueProduceNames(lots.filter((lot) => !lot.atmosphere));
+  if (withData.length === 0 || unknown.length > 0) {
+    return { zone, lineIds, names, setting: AIR, limitedBy: withData.length > 0 ? unknown : [], withoutBenefit: uniqueProduceNames(withData) };
+  }
+
+  const o2Floor = Math.max(...withData.map((lot) => lot.atmosphere.o2.min));
+  const o2Ceiling = Math.min(...withData.map((lot) => lot.atmosphere.o2.max));
+  const co2Cap = Math.min(...withData.map((lot) => lot.atmosphere.co2.max));
+  const co2Floor = Math.max(...withData.map((lot) => lot.atmosphere.co2.min));
+  const o2 = { min: o2Floor, max: Math.max(o2Floor, o2Ceiling) };
+  const co2 = { min: Math.min(co2Floor, co2Cap), max: co2Cap };
+  const setting = { o2, co2, controlled: o2.max < AIR_O2_PCT || co2.min > 0 };
+
+  const limitedBy = uniqueProduceNames(
+    withData.filter(
+      (lot) => (o2Floor > o2Ceiling && lot.atmosphere.o2.min === o2Floor) || (co2Floor > co2Cap && lot.atmosphere.co2.max === co2Cap)
+    )
+  );
+  const withoutBenefit = uniqueProduceNames(
+    withData.filter((lot) => !overlaps(lot.atmosphere.o2, o2) || !overlaps(lot.atmosphere.co2, co2))
+  );
+  return { zone, lineIds, names, setting: setting.controlled ? setting : AIR, limitedBy, withoutBenefit };
+}
+
+// CA/MAP settings for the whole load and for each compartment, with the items at risk from high CO2
+export function recommendAtmosphere(lines: Vegetable[], evaluation: EvaluationOptions = {}): AtmospherePlan {
+  const lots = lines.map(applyMaturity);
+  const compartments = planCompartments(lines, evaluation).compartments;
+  const zones = compartments.map((compartment, index) => recommendZone(compartment.lines, index + 1));
+  const treatments = evaluation.treatments ?? {};
+
+  const flags: Co2DamageFlag[] = [];
+  lots.forEach((lot) => {
+    if (!lot.atmosphere) return;
+    const base = { id: lot.id, name: getLineLabel(lot, lots), co2Max: lot.atmosphere.co2.max, injury: lot.atmosphere.co2Injury ?? 'CO₂ injury' };
+    if ((treatments[lot.id] ?? []).includes('map') && lot.atmosphere.co2.max < MAP_EQUILIBRIUM_CO2_PCT) {
+      flags.push({ ...base, exposurePct: MAP_EQUILIBRIUM_CO2_PCT, source: 'map' });
+    }
+    // Zoned with items whose CA range starts above what this one tolerates
+    const zone = compartments.find((compartment) => compartment.lines.some((member) => member.id === lot.id));
+    const neighbours = (zone?.lines ?? []).filter((other) => other.id !== lot.id && other.atmosphere);
+    const wanted = Math.max(0, ...neighbours.map((other) => other.atmosphere.co2.min));
+    if (wanted > lot.atmosphere.co2.max) flags.push({ ...base, exposurePct: wanted, source: 'shared_zone' });
+  });
+
+  return { load: recommendZone(lots, null), zones, flags };
+}
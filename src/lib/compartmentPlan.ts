@@ -0,0 +1,161 @@
+import type { Vegetable } from '@/components/VegetableInput';
+import { getHumidityRange } from '@/lib/produceCatalog';
+import { applyMaturity } from '@/lib/maturity';
+import { getLineLabel } from '@/lib/lots';
+import { EvaluationOptions, evaluateLoad, getRule, requiresSeparation } from '@/lib/compatibilityRules';
+import type { LineTreatments, TreatmentAssignment } from '@/lib/mitigations';
+
+export interface Compartment {
+  lines: Vegetable[]; // lot-adjusted lines riding together
+  temperature: { min: number; max: number }; // band every member tolerates
+  humidity: { min: number; max: number };
+  notes: string[]; // why this group cannot share a zone with each earlier one, and any tolerated band gap
+}
+
+export interface CompartmentPlan {
+  compartments: Compartment[];
+  optimal: boolean; // false when the exact search gave up and a greedy coloring was used
+}
+
+// Range every member shares. A policy tolerance or a disabled rule can put members whose
+// ranges do not overlap in one zone; the band then collapses to the middle of the gap.
+function sharedBand(ranges: { min: number; max: number }[]) {
+  const min = Math.max(...ranges.map((r) => r.min));
+  const max = Math.min(...ranges.map((r) => r.max));
+  if (min <= max) return { band: { min, max }, tolerated: false };
+  const middle = Math.round(((min + max) / 2) * 2) / 2;
+  return { band: { min: middle, max: middle }, tolerated: true };
+}
+
+// Exact search is cheap for realistic loads; larger ones fall back to DSATUR
+const SEARCH_BUDGET = 200000;
+
+// Greedy DSATUR: colour the vertex with the most differently-coloured neighbours first
+function dsatur(adjacency: Set<number>[]): number[] {
+  const n = adjacency.length;
+  const colors = Array<number>(n).fill(-1);
+  for (let step = 0; step < n; step++) {
+    let pick = -1;
+    let bestSat = -1;
+    let bestDeg = -1;
+    for (let v = 0; v < n; v++) {
+      if (colors[v] !== -1) continue;
+      const sat = new Set(Array.from(adjacency[v]).map((u) => colors[u]).filter((c) => c !== -1)).size;
+      if (sat > bestSat || (sat === bestSat && adjacency[v].size > bestDeg)) {
+        pick = v;
+        bestSat = sat;
+        bestDeg = adjacency[v].size;
+      }
+    }
+    const used = new Set(Array.from(adjacency[pick]).map((u) => colors[u]));
+    let color = 0;
+    while (used.has(color)) color++;
+    colors[pick] = color;
+  }
+  return colors;
+}
+
+// Backtracking k-colouring in descending-degree order; null when none exists or the budget runs out
+function colorWithK(adjacency: Set<number>[], k: number, budget: { steps: number }): number[] | null {
+  const n = adjacency.length;
+  const order = Array.from({ length: n }, (_, i) => i).sort((a, b) => adjacency[b].size - adjacency[a].size);
+  const colors = Array<number>(n).fill(-1);
+
+  const assign = (index: number, usedColors: number): boolean => {
+    if (index === n) return true;
+    if (--budget.steps < 0) return false;
+    const v = order[index];
+    // Trying at most one fresh colour avoids exploring relabelled copies of the same colouring
+    for (let color = 0; color < Math.min(k, usedColors + 1); color++) {
+      if (Array.from(adjacency[v]).some((u) => colors[u] === color)) continue;
+      colors[v] = color;
+      if (assign(index + 1, Math.max(usedColors, color + 1))) return true;
+      colors[v] = -1;
+    }
+    return false;
+  };
+
+  return assign(0, 0) ? colors : null;
+}
+
+// Split the load into the fewest groups with no open finding or planned separation between
+// any two members. Conflicts are edges of a graph, so this is a minimum graph colouring.
+export function planCompartments(lines: Vegetable[], options: EvaluationOptions = {}): CompartmentPlan {
+  if (lines.length === 0) return { compartments: [], optimal: true };
+  const lots = lines.map(applyMaturity);
+  const index = new Map(lots.map((lot, i) => [lot.id, i]));
+  const adjacency = lots.map(() => new Set<number>());
+  const conflicts = evaluateLoad(lines, options).filter(requiresSeparation);
+  conflicts.forEach((e) => {
+    adjacency[index.get(e.a.id)].add(index.get(e.b.id));
+    adjacency[index.get(e.b.id)].add(index.get(e.a.id));
+  });
+
+  const greedy = dsatur(adjacency);
+  const greedyCount = Math.max(...greedy) + 1;
+  let colors = greedy;
+  let optimal = true;
+  const budget = { steps: SEARCH_BUDGET };
+  for (let k = 1; k < greedyCount; k++) {
+    const found = colorWithK(adjacency, k, budget);
+    if (found) {
+      colors = found;
+      break;
+    }
+    if (budget.steps < 0) {
+      optimal = false;
+      break;
+    }
+  }
+
+  const count = Math.max(...colors) + 1;
+  const groups = Array.from({ length: count }, (_, c) => lots.filter((_, i) => colors[i] === c));
+  const groupOf = (id: string) => colors[index.get(id)];
+
+  const compartments = groups.map((members, c) => {
+    const temperature = sharedBand(members.map((m) => m.idealTemp));
+    const humidity = sharedBand(members.map((m) => getHumidityRange(m)));
+    const tolerated = [
+      ...(temperature.tolerated ? [`no temperature band suits every member, so it rides at ${temperature.band.min}°C`] : []),
+      ...(humidity.tolerated ? [`no humidity band suits every member, so it runs at ${humidity.band.min}% RH`] : []),
+    ];
+
+    // Each split is explained once, on the later of the two zones, naming the rules that forced it
+    const notes = groups.slice(0, c).flatMap((earlier, other) => {
+      const between = conflicts.filter((e) => {
+        const pair = [groupOf(e.a.id), groupOf(e.b.id)];
+        return pair.includes(c) && pair.includes(other);
+      });
+      if (between.length === 0) return [];
+      const reasons = Array.from(new Set(between.flatMap((e) => [...e.findings, ...e.resolved].map((f) => getRule(f.type)?.label.toLowerCase() ?? f.type))));
+      const names = Array.from(new Set(earlier.map((m) => getLineLabel(m, lots))));
+      return [`Split from zone ${other + 1} (${names.join(', ')}): ${reasons.join(', ')}`];
+    });
+
+    if (tolerated.length > 0) notes.push(`Shared only under the buyer policy's tolerance: ${tolerated.join('; ')}`);
+
+    return { lines: members, temperature: temperature.band, humidity: humidity.band, notes };
+  });
+
+  return { compartments, optimal };
+}
+
+// Expand scenario treatments to the lines they cover. Zone numbers refer to the plan before
+// treatments (planned once by the caller and shown to the user when picking a zone), so a
+// treatment that lets two zones merge does not move its own target.
+export function resolveLineTreatments(lines: Vegetable[], assignments: TreatmentAssignment[], zones: Compartment[]): LineTreatments {
+  const result: LineTreatments = Object.fromEntries(lines.map((line) => [line.id, []]));
+
+  assignments.forEach(({ treatment, scope, target }) => {
+    const covered =
+      scope === 'load'
+        ? lines.map((line) => line.id)
+        : scope === 'zone'
+        ? (zones[Number(target) - 1]?.lines ?? []).map((line) => line.id)
+        : lines.filter((line) => line.id === target).map((line) => line.id);
+    covered.forEach((id) => {
+      if (!result[id].includes(treatment)) result[id].push(treatment);
+    });
+  });
+  return result;
+}
@@ -0,0 +1,374 @@
+import type { Vegetable } from '@/components/VegetableInput';
+import { getHumidityRange } from '@/lib/produceCatalog';
+import { applyMaturity } from '@/lib/maturity';
+import { getLineLabel } from '@/lib/lots';
+import { escapeCsvField } from '@/lib/produceCatalogTransfer';
+import { MITIGATIONS, MitigationId, LineTreatments, TOP_ICING_ALLOWANCE_C, TreatmentId, findingKey } from '@/lib/mitigations';
+import { BUILT_IN_POLICIES, DEFAULT_POLICY_ID, PolicyProfile, RuleThresholds } from '@/lib/policyProfiles';
+
+export type ConflictType = 'ethylene' | 'temperature' | 'humidity' | 'odor';
+
+export type Severity = 'low' | 'medium' | 'high';
+
+export const SEVERITY_RANK: Record<Severity, number> = { low: 0, medium: 1, high: 2 };
+
+// Severity a finding drops to once a mitigation is in place; 'none' clears it
+export type MitigatedSeverity = Severity | 'none';
+
+const MITIGATED_RANK: Record<MitigatedSeverity, number> = { none: -1, ...SEVERITY_RANK };
+
+// A property value that triggered a rule, e.g. "Tomatoes ethylene production: high"
+export interface Evidence {
+  label: string;
+  value: string;
+}
+
+export interface MitigationOption {
+  id: MitigationId;
+  severityAfter: MitigatedSeverity;
+}
+
+// What a rule reports for one pair of lines
+export interface Finding {
+  type: ConflictType;
+  ruleId: string;
+  key: string; // identifies this rule on this pair, used to store applied mitigations
+  severity: Severity; // after scenario treatments and any applied mitigation
+  baseSeverity: Severity; // before treatments and mitigation
+  reason: string;
+  evidence: Evidence[];
+  mitigations: MitigationOption[]; // most effective first, cheaper first among equals
+  applied?: MitigationOption;
+  treatedBy: TreatmentId[];
+  cleared: boolean; // true when treatments or the applied mitigation remove the finding
+  blocking: boolean; // open and at or above the policy's blocking severity for this rule
+}
+
+export interface RuleContext {
+  label: (line: Vegetable) => string; // display name, with lot code when the load has several lots
+  treatments: (line: Vegetable) => TreatmentId[]; // scenario treatments covering the line
+  thresholds: RuleThresholds; // from the scenario's policy profile
+}
+
+export interface RuleResult {
+  reason: string;
+  severity: Severity; // untreated severity
+  evidence: Evidence[];
+  mitigations: MitigationOption[];
+  treated?: { by: TreatmentId[]; severityAfter: MitigatedSeverity }; // effect of scenario treatments
+}
+
+export interface CompatibilityRule {
+  id: string;
+  type: ConflictType;
+  label: string; // short label used when a pair has more than one conflict
+  wastePenalty: Record<Severity, number>; // extra waste fraction for a line caught by this rule in an unplanned load
+  check: (a: Vegetable, b: Vegetable, context: RuleContext) => RuleResult | null;
+}
+
+export interface PairEvaluation {
+  a: Vegetable;
+  b: Vegetable;
+  pair: string;
+  findings: Finding[]; // still open, at their mitigated severity
+  resolved: Finding[]; // cleared by a scenario treatment or an applied mitigation
+  compatible: boolean;
+  blocking: boolean; // some open finding blocks the load under the policy
+  severity: Severity; // worst open finding; 'low' when compatible
+}
+
+// Mitigation chosen for each finding key
+export type AppliedMitigations = Record<string, MitigationId>;
+
+export interface EvaluationOptions {
+  applied?: AppliedMitigations;
+  treatments?: LineTreatments;
+  policy?: PolicyProfile; // defaults to the standard profile
+}
+
+export interface LoadStatus {
+  status: 'neutral' | 'compatible' | 'warning' | 'incompatible';
+  text: string;
+  policy: string; // name of the profile the status is reported against
+}
+
+const rules: CompatibilityRule[] = [];
+
+// Rules run in registration order, which is also the order their findings are listed
+export function registerRule(rule: CompatibilityRule) {
+  const existing = rules.findIndex((r) => r.id === rule.id);
+  if (existing >= 0) rules[existing] = rule;
+  else rules.push(rule);
+}
+
+export const getRules = (): readonly CompatibilityRule[] => rules;
+
+export const getRule = (type: ConflictType) => rules.find((rule) => rule.type === type);
+
+export const worstSeverity = (findings: Pick<Finding, 'severity'>[]): Severity =>
+  findings.reduce<Severity>((worst, f) => (SEVERITY_RANK[f.severity] > SEVERITY_RANK[worst] ? f.severity : worst), 'low');
+
+const rankMitigations = (options: MitigationOption[]) =>
+  [...options].sort(
+    (x, y) => MITIGATED_RANK[x.severityAfter] - MITIGATED_RANK[y.severityAfter] || MITIGATIONS[x.id].cost - MITIGATIONS[y.id].cost
+  );
+
+// Both separations clear any pair conflict; rules list them after their cheaper fixes
+const SEPARATION: MitigationOption[] = [
+  { id: 'separate_compartment', severityAfter: 'none' },
+  { id: 'separate_truck', severityAfter: 'none' },
+];
+
+// Ethylene levels share the severity scale
+const atLeast = (value: Severity, threshold: Severity) => SEVERITY_RANK[value] >= SEVERITY_RANK[threshold];
+
+const lowest = (severities: MitigatedSeverity[]) =>
+  severities.reduce((best, s) => (MITIGATED_RANK[s] < MITIGATED_RANK[best] ? s : best));
+
+// Best protection a set of treatments gives. Two different protections stack one step further.
+function treatmentEffect(effects: [TreatmentId, MitigatedSeverity][]): RuleResult['treated'] {
+  if (effects.length === 0) return undefined;
+  const by = Array.from(new Set(effects.map(([id]) => id)));
+  const best = lowest(effects.map(([, severity]) => severity));
+  const stacked: MitigatedSeverity = by.length > 1 && best !== 'none' ? (best === 'low' ? 'none' : best === 'medium' ? 'low' : 'medium') : best;
+  return { by, severityAfter: stacked };
+}
+
+const range = (r: { min: number; max: number }, unit: string) => `${r.min}–${r.max}${unit}`;
+
+// Percentage-point gap between non-overlapping humidity ranges (0 when they overlap)
+export function humidityGap(a: Vegetable, b: Vegetable): number {
+  const h1 = getHumidityRange(a);
+  const h2 = getHumidityRange(b);
+  return Math.max(0, h2.min - h1.max, h1.min - h2.max);
+}
+
+registerRule({
+  id: 'ETH-01',
+  type: 'ethylene',
+  label: 'Ethylene conflict',
+  wastePenalty: { low: 0.1, medium: 0.15, high: 0.2 },
+  check: (a, b, { label, treatments, thresholds }) => {
+    const affects = (x: Vegetable, y: Vegetable) =>
+      atLeast(x.ethyleneProduction, thresholds.ethyleneProduction) && atLeast(y.ethyleneSensitivity, thresholds.ethyleneSensitivity);
+    const [producer, sensitive] = affects(a, b) ? [a, b] : affects(b, a) ? [b, a] : [];
+    if (!producer) return null;
+    return {
+      reason: 'Ethylene gas will cause premature ripening',
+      // Stricter policies also catch medium producers or sensitivities, at a lower severity
+      severity: producer.ethyleneProduction === 'high' && sensitive.ethyleneSensitivity === 'high' ? 'high' : 'medium',
+      evidence: [
+        { label: `${label(producer)} ethylene production`, value: producer.ethyleneProduction },
+        { label: `${label(sensitive)} ethylene sensitivity`, value: sensitive.ethyleneSensitivity },
+      ],
+      mitigations: [
+        ...SEPARATION,
+        { id: 'one_mcp', severityAfter: 'low' },
+        { id: 'ethylene_absorber', severityAfter: 'medium' },
+        { id: 'liner_bags', severityAfter: 'medium' },
+      ],
+      // Scrubbers and sachets clean the shared air, 1-MCP protects the sensitive lot, bags isolate either side
+      treated: treatmentEffect([
+        ...[...treatments(producer), ...treatments(sensitive)]
+          .filter((id) => id === 'ethylene_scrubber' || id === 'absorber_sachets')
+          .map((id): [TreatmentId, MitigatedSeverity] => [id, id === 'ethylene_scrubber' ? 'low' : 'medium']),
+        ...(treatments(sensitive).includes('one_mcp') ? [['one_mcp', 'low'] as [TreatmentId, MitigatedSeverity]] : []),
+        ...(treatments(producer).includes('map') || treatments(sensitive).includes('map') ? [['map', 'medium'] as [TreatmentId, MitigatedSeverity]] : []),
+      ]),
+    };
+  },
+});
+
+registerRule({
+  id: 'TMP-01',
+  type: 'temperature',
+  label: 'temperature mismatch',
+  wastePenalty: { low: 0.1, medium: 0.15, high: 0.2 },
+  check: (a, b, { label, treatments, thresholds }) => {
+    const gap = Math.max(b.idealTemp.min - a.idealTemp.max, a.idealTemp.min - b.idealTemp.max);
+    if (gap <= thresholds.temperatureToleranceC) return null;
+    const [cold, warm] = a.idealTemp.max < b.idealTemp.min ? [a, b] : [b, a];
+    // Ice holds the colder lot near 0°C in a warmer compartment when the gap is moderate
+    const iced = treatments(cold).includes('top_icing') && warm.idealTemp.min - cold.idealTemp.max <= TOP_ICING_ALLOWANCE_C;
+    return {
+      reason: 'Incompatible temperature requirements',
+      severity: 'medium',
+      evidence: [
+        { label: `${label(a)} ideal temperature`, value: range(a.idealTemp, '°C') },
+        { label: `${label(b)} ideal temperature`, value: range(b.idealTemp, '°C') },
+      ],
+      mitigations: SEPARATION,
+      treated: treatmentEffect(iced ? [['top_icing', 'low']] : []),
+    };
+  },
+});
+
+// Wide gaps mean wilting or rot for one side
+registerRule({
+  id: 'HUM-01',
+  type: 'humidity',
+  label: 'humidity mismatch',
+  wastePenalty: { low: 0.03, medium: 0.08, high: 0.1 },
+  check: (a, b, { label, treatments, thresholds }) => {
+    const gap = humidityGap(a, b);
+    if (gap <= thresholds.humidityToleranceRh) return null;
+    const wide = gap >= thresholds.humidityMediumGapRh;
+    const h1 = getHumidityRange(a);
+    const h2 = getHumidityRange(b);
+    return {
+      reason: `Humidity mismatch (${label(a)} ${h1.min}–${h1.max}% vs ${label(b)} ${h2.min}–${h2.max}% RH)`,
+      severity: wide ? 'medium' : 'low',
+      evidence: [
+        { label: `${label(a)} ideal humidity`, value: range(h1, '% RH') },
+        { label: `${label(b)} ideal humidity`, value: range(h2, '% RH') },
+        { label: 'Gap', value: `${gap} pts` },
+      ],
+      // Liners hold moisture around the humid side, so a dry-storage neighbour can share the air
+      mitigations: [{ id: 'liner_bags', severityAfter: wide ? 'low' : 'none' }, ...SEPARATION],
+      // Bags and ice keep the humid side saturated regardless of the cargo air
+      treated: treatmentEffect(
+        treatments(h1.min >= h2.min ? a : b)
+          .filter((id) => id === 'map' || id === 'top_icing')
+          .map((id): [TreatmentId, MitigatedSeverity] => [id, 'none'])
+      ),
+    };
+  },
+});
+
+// Strong-smelling produce taints items that absorb odors
+registerRule({
+  id: 'ODR-01',
+  type: 'odor',
+  label: 'odor transfer',
+  wastePenalty: { low: 0.03, medium: 0.05, high: 0.08 },
+  check: (a, b, { label, treatments }) => {
+    const [source, absorber] = a.odorEmitter && b.odorAbsorber ? [a, b] : b.odorEmitter && a.odorAbsorber ? [b, a] : [];
+    if (!source) return null;
+    return {
+      reason: `${label(source)} odor will taint ${label(absorber)}`,
+      severity: 'medium',
+      evidence: [
+        { label: `${label(source)} odor emitter`, value: 'yes' },
+        { label: `${label(absorber)} absorbs odors`, value: 'yes' },
+      ],
+      mitigations: [...SEPARATION, { id: 'liner_bags', severityAfter: 'low' }],
+      treated: treatmentEffect(treatments(source).includes('map') || treatments(absorber).includes('map') ? [['map', 'low']] : []),
+    };
+  },
+});
+
+// Every pair of lot-adjusted lines run through every registered rule, with scenario treatments
+// and applied mitigations lowering or clearing the matching findings
+export function evaluateLoad(
+  lines: Vegetable[],
+  { applied = {}, treatments = {}, policy = BUILT_IN_POLICIES[DEFAULT_POLICY_ID] }: EvaluationOptions = {}
+): PairEvaluation[] {
+  const vegetables = lines.map(applyMaturity);
+  const context: RuleContext = {
+    label: (line) => getLineLabel(line, vegetables),
+    treatments: (line) => treatments[line.id] ?? [],
+    thresholds: policy.thresholds,
+  };
+  const active = rules.filter((rule) => policy.rules[rule.type]?.enabled ?? true);
+  const evaluations: PairEvaluation[] = [];
+
+  for (let i = 0; i < vegetables.length; i++) {
+    for (let j = i + 1; j < vegetables.length; j++) {
+      const a = vegetables[i];
+      const b = vegetables[j];
+      const all = active
+        .map((rule): Finding | null => {
+          const result = rule.check(a, b, context);
+          if (!result) return null;
+          const { severity: override, blockFrom } = policy.rules[rule.type] ?? { blockFrom: 'high' };
+          const base = override ?? result.severity;
+          const key = findingKey(rule.id, a.id, b.id);
+          const mitigations = rankMitigations(result.mitigations);
+          const chosen = mitigations.find((m) => m.id === applied[key]);
+          const { treated, ...rest } = result;
+          const after = lowest([base, treated?.severityAfter ?? base, chosen?.severityAfter ?? base]);
+          const severity = after === 'none' ? base : after;
+          return {
+            ...rest,
+            type: rule.type,
+            ruleId: rule.id,
+            key,
+            mitigations,
+            baseSeverity: base,
+            severity,
+            applied: chosen,
+            treatedBy: treated?.by ?? [],
+            cleared: after === 'none',
+            blocking: after !== 'none' && blockFrom !== 'never' && atLeast(severity, blockFrom),
+          };
+        })
+        .filter((finding): finding is Finding => finding !== null);
+      const findings = all.filter((f) => !f.cleared);
+      evaluations.push({
+        a,
+        b,
+        pair: `${context.label(a)} + ${context.label(b)}`,
+        findings,
+        resolved: all.filter((f) => f.cleared),
+        compatible: findings.length === 0,
+        blocking: findings.some((f) => f.blocking),
+        severity: worstSeverity(findings),
+      });
+    }
+  }
+
+  return evaluations;
+}
+
+// True when the pair must ride apart, either because it still conflicts or because
+// the planner resolved a conflict by separating it
+export const requiresSeparation = (evaluation: PairEvaluation) =>
+  !evaluation.compatible || evaluation.resolved.some((f) => f.applied && MITIGATIONS[f.applied.id].separates);
+
+// Findings that involve one line, for per-line consumers such as the impact estimate
+export const findingsForLine = (evaluations: PairEvaluation[], id: string): Finding[] =>
+  evaluations.filter((e) => e.a.id === id || e.b.id === id).flatMap((e) => e.findings);
+
+// One-line summary for the status bar and exports, reported against the scenario's policy:
+// blocking findings make the load incompatible, the rest are warnings
+export function getLoadStatus(lines: Vegetable[], options: EvaluationOptions = {}): LoadStatus {
+  const policy = (options.policy ?? BUILT_IN_POLICIES[DEFAULT_POLICY_ID]).name;
+  if (lines.length < 2) return { status: 'neutral', text: 'Add more vegetables', policy };
+  const open = evaluateLoad(lines, options).flatMap((e) => e.findings);
+  if (open.length === 0) return { status: 'compatible', text: 'All vegetables compatible', policy };
+  const typesOf = (findings: Finding[]) => Array.from(new Set(findings.map((f) => f.type))).join(', ');
+  const blocking = open.filter((f) => f.blocking);
+  return blocking.length > 0
+    ? { status: 'incompatible', text: `Blocked under ${policy} policy (${typesOf(blocking)})`, policy }
+    : { status: 'warning', text: `Compatibility warnings under ${policy} policy (${typesOf(open)})`, policy };
+}
+
+export interface CompatibilityMatrix {
+  ids: string[];
+  labels: string[];
+  cells: (PairEvaluation | null)[][]; // symmetric; null on the diagonal
+}
+
+// Square view of the same pair evaluations, indexed by load line
+export function buildCompatibilityMatrix(lines: Vegetable[], options: EvaluationOptions = {}): CompatibilityMatrix {
+  const lots = lines.map(applyMaturity);
+  const ids = lines.map((line) => line.id);
+  const cells = ids.map(() => ids.map(() => null as PairEvaluation | null));
+  evaluateLoad(lines, options).forEach((evaluation) => {
+    const i = ids.indexOf(evaluation.a.id);
+    const j = ids.indexOf(evaluation.b.id);
+    cells[i][j] = evaluation;
+    cells[j][i] = evaluation;
+  });
+  return { ids, labels: lots.map((lot) => getLineLabel(lot, lots)), cells };
+}
+
+// One row per line; cells hold the worst severity followed by every reason
+export function serializeMatrixCSV(matrix: CompatibilityMatrix): string {
+  const cellText = (cell: PairEvaluation | null) =>
+    cell === null ? '—' : cell.compatible
+      ? 'compatible'
+      : `${cell.severity}${cell.blocking ? ' (blocking)' : ''}: ${cell.findings.map((f) => f.reason).join('; ')}`;
+  const rows = [['', ...matrix.labels], ...matrix.labels.map((label, i) => [label, ...matrix.cells[i].map(cellText)])];
+  return rows.map((row) => row.map(escapeCsvField).join(',')).join('\n');
+}
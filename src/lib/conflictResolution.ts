@@ -0,0 +1,142 @@
+import type { Vegetable } from '@/components/VegetableInput';
+import { ProduceCatalog, getPricePerKg } from '@/lib/produceCatalog';
+import { getLineWeightKg } from '@/lib/loadUnits';
+import { applyMaturity } from '@/lib/maturity';
+import { getLineLabel, nextLotCode } from '@/lib/lots';
+import { EvaluationOptions, LoadStatus, evaluateLoad, getLoadStatus } from '@/lib/compatibilityRules';
+import { MitigationId } from '@/lib/mitigations';
+
+export type ResolutionAction =
+  | { kind: 'remove'; lineId: string }
+  | { kind: 'move'; lineId: string; keys: string[] } // findings shipped apart on another truck
+  | { kind: 'swap'; lineId: string; replacement: string }; // catalog name of the substitute
+
+export interface ResolvedConflict {
+  pair: string;
+  ruleId: string;
+  reason: string;
+  blocking: boolean;
+}
+
+export interface ResolutionSuggestion {
+  id: string;
+  action: ResolutionAction;
+  title: string; // e.g. "Swap Tomatoes for Eggplant"
+  resolved: ResolvedConflict[];
+  remaining: number; // open findings after the change
+  remainingBlocking: number;
+  status: LoadStatus; // load status after the change
+  extraTrucks: number; // trucks added to the plan by the change
+  cost: number; // ACTION_COST plus EXTRA_TRUCK_COST per added truck, used to rank changes that resolve as much
+  kgAffected: number;
+}
+
+// Swapping keeps the trip full, moving means reloading, dropping a line loses its sale
+const ACTION_COST: Record<ResolutionAction['kind'], number> = { swap: 1, move: 1, remove: 4 };
+
+// A move puts the line on a truck of its own, on top of the ones the load already needs
+const EXTRA_TRUCKS: Record<ResolutionAction['kind'], number> = { swap: 0, move: 1, remove: 0 };
+const EXTRA_TRUCK_COST = 2;
+
+// Substitutes offered per conflicting line
+const SWAPS_PER_LINE = 2;
+
+// Lines after a remove or swap; a move only changes applied mitigations
+export function applyResolutionToLines(lines: Vegetable[], action: ResolutionAction, catalog: ProduceCatalog): Vegetable[] {
+  if (action.kind === 'remove') return lines.filter((line) => line.id !== action.lineId);
+  if (action.kind === 'move') return lines;
+  const others = lines.filter((line) => line.id !== action.lineId);
+  return lines.map((line) =>
+    line.id === action.lineId
+      ? {
+          ...catalog[action.replacement],
+          id: line.id,
+          quantity: line.quantity,
+          unit: line.unit,
+          harvestDate: line.harvestDate,
+          grade: line.grade,
+          lotCode: nextLotCode(action.replacement, others),
+        }
+      : line
+  );
+}
+
+// Applied mitigations after the change: a move ships every listed finding on a separate truck;
+// a remove or swap drops the ones chosen for the line's old produce
+export function applyResolutionToMitigations(action: ResolutionAction, applied: Record<string, MitigationId>) {
+  if (action.kind === 'move') {
+    return { ...applied, ...Object.fromEntries(action.keys.map((key) => [key, 'separate_truck' as MitigationId])) };
+  }
+  // Keys are rule id then the pair's line ids, joined by ':'
+  return Object.fromEntries(Object.entries(applied).filter(([key]) => !key.split(':').slice(1).includes(action.lineId)));
+}
+
+// Truck count after the change
+export const trucksAfterResolution = (action: ResolutionAction, truckCount: number) => truckCount + EXTRA_TRUCKS[action.kind];
+
+// Single-line changes that clear the most conflicts, blocking ones first, cheapest first among equals
+export function suggestResolutions(
+  lines: Vegetable[],
+  catalog: ProduceCatalog,
+  evaluation: EvaluationOptions = {},
+  limit = 8
+): ResolutionSuggestion[] {
+  const lots = lines.map(applyMaturity);
+  const before = evaluateLoad(lines, evaluation).flatMap((e) => e.findings.map((f) => ({ ...f, pair: e.pair, ids: [e.a.id, e.b.id] })));
+  if (before.length === 0) return [];
+
+  const evaluate = (action: ResolutionAction, title: string, kgAffected: number): ResolutionSuggestion => {
+    const nextLines = applyResolutionToLines(lines, action, catalog);
+    const nextOptions = { ...evaluation, applied: applyResolutionToMitigations(action, evaluation.applied ?? {}) };
+    const after = evaluateLoad(nextLines, nextOptions).flatMap((e) => e.findings);
+    const stillOpen = new Set(after.map((f) => f.key));
+    return {
+      id: `${action.kind}:${action.lineId}${action.kind === 'swap' ? `:${action.replacement}` : ''}`,
+      action,
+      title,
+      resolved: before
+        .filter((f) => !stillOpen.has(f.key))
+        .map(({ pair, ruleId, reason, blocking }) => ({ pair, ruleId, reason, blocking })),
+      remaining: after.length,
+      remainingBlocking: after.filter((f) => f.blocking).length,
+      status: getLoadStatus(nextLines, nextOptions),
+      extraTrucks: EXTRA_TRUCKS[action.kind],
+      cost: ACTION_COST[action.kind] + EXTRA_TRUCKS[action.kind] * EXTRA_TRUCK_COST,
+      kgAffected,
+    };
+  };
+
+  const suggestions: ResolutionSuggestion[] = [];
+  lots.forEach((lot) => {
+    const involved = before.filter((f) => f.ids.includes(lot.id));
+    if (involved.length === 0) return;
+    const label = getLineLabel(lot, lots);
+    const kg = getLineWeightKg(lot);
+
+    suggestions.push(evaluate({ kind: 'remove', lineId: lot.id }, `Remove ${label}`, kg));
+    suggestions.push(evaluate({ kind: 'move', lineId: lot.id, keys: involved.map((f) => f.key) }, `Move ${label} to another truck`, kg));
+
+    // Substitutes that add no conflict of their own, closest in value first
+    const swaps = Object.values(catalog)
+      .filter((entry) => entry.name !== lot.name)
+      .map((entry) => evaluate({ kind: 'swap', lineId: lot.id, replacement: entry.name }, `Swap ${label} for ${entry.name}`, kg))
+      .filter((s) => s.resolved.length === involved.length && s.remaining === before.length - involved.length)
+      .sort((x, y) => {
+        const gap = (s: ResolutionSuggestion) =>
+          Math.abs(getPricePerKg(catalog[(s.action as { replacement: string }).replacement]) - getPricePerKg(lot));
+        return gap(x) - gap(y) || x.title.localeCompare(y.title);
+      });
+    suggestions.push(...swaps.slice(0, SWAPS_PER_LINE));
+  });
+
+  return suggestions
+    .filter((s) => s.resolved.length > 0)
+    .sort(
+      (x, y) =>
+        x.remainingBlocking - y.remainingBlocking ||
+        x.remaining - y.remaining ||
+        x.cost - y.cost ||
+        x.kgAffected - y.kgAffected
+    )
+    .slice(0, limit);
+}
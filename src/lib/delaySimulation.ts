@@ -0,0 +1,184 @@
+import type { Vegetable } from '@/components/VegetableInput';
+import type { LineTreatments } from '@/lib/mitigations';
+import { computeArrivalShelfLife } from '@/lib/arrivalShelfLife';
+import { getPricePerKg } from '@/lib/produceCatalog';
+import { getLineWeightKg } from '@/lib/loadUnits';
+import { getLineLabel } from '@/lib/lots';
+import { applyMaturity } from '@/lib/maturity';
+import { evaluateSetpoint } from '@/lib/setpointOptimizer';
+import { optimizedWasteFraction } from '@/lib/wasteModel';
+
+// Extra hours on a route or leg: with the given probability a delay happens, and its length
+// then follows a triangular distribution between min and max, most often near mode
+export interface DelayDistribution {
+  probability: number; // 0–1
+  minHours: number;
+  modeHours: number;
+  maxHours: number;
+}
+
+export type DelayPresetId = 'traffic' | 'mountain_road' | 'typhoon' | 'port_queue';
+
+export const DELAY_PRESETS: Record<DelayPresetId, { label: string; delay: DelayDistribution }> = {
+  traffic: { label: 'Metro traffic', delay: { probability: 0.6, minHours: 0.25, modeHours: 0.5, maxHours: 2 } },
+  mountain_road: {
+    label: 'Mountain road closure (Kennon/Halsema)',
+    delay: { probability: 0.15, minHours: 1, modeHours: 3, maxHours: 12 },
+  },
+  typhoon: { label: 'Typhoon season', delay: { probability: 0.1, minHours: 6, modeHours: 24, maxHours: 72 } },
+  port_queue: { label: 'RoRo port queue', delay: { probability: 0.5, minHours: 2, modeHours: 6, maxHours: 24 } },
+};
+
+export interface SimulatedLeg {
+  hours: number;
+  delay?: DelayDistribution;
+}
+
+// Part of a line unloaded at the end of a leg
+export interface SimulatedDelivery {
+  leg: number;
+  line: Vegetable;
+  kg: number;
+}
+
+export interface Percentiles {
+  nominal: number; // no delays
+  p50: number;
+  p90: number; // the worse side: 9 in 10 trips do at least this well
+}
+
+export interface LineOutcome {
+  id: string;
+  name: string;
+  leg: number; // leg it is unloaded at the end of
+  remainingDays: Percentiles; // at delivery
+  expiredShare: number; // share of trials in which the line arrives past its shelf life
+}
+
+export interface DelayOutcome {
+  trials: number;
+  delayedShare: number; // share of trials with any delay
+  durationHours: Percentiles;
+  quality: Percentiles; // kg-weighted % of shelf life left at delivery
+  wastePct: Percentiles;
+  lossValue: Percentiles; // PHP
+  lines: LineOutcome[];
+}
+
+export interface DelaySimulationOptions {
+  departure: Date;
+  minRemainingDays: number;
+  cargoTempC: number;
+  treatments?: LineTreatments;
+  deliveries?: SimulatedDelivery[]; // unset delivers every line in full at the end of the last leg
+  trials?: number;
+  seed?: number;
+}
+
+// Lots arriving under the minimum lose up to this share on top of their base waste
+const LOW_SHELF_LIFE_WASTE = 0.5;
+
+const DEFAULT_TRIALS = 500;
+
+// Small seeded generator (mulberry32) so the same scenario gives the same percentiles on every render
+function seededRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function sampleDelay(delay: DelayDistribution | undefined, random: () => number): number {
+  if (!delay || delay.probability <= 0 || random() >= delay.probability) return 0;
+  const min = Math.max(0, delay.minHours);
+  const max = Math.max(min, delay.maxHours);
+  const mode = Math.min(max, Math.max(min, delay.modeHours));
+  if (max === min) return min;
+  // Inverse of the triangular CDF
+  const u = random();
+  const split = (mode - min) / (max - min);
+  return u < split ? min + Math.sqrt(u * (max - min) * (mode - min)) : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+}
+
+// Value at percentile p (0–1) of already sorted values
+const percentile = (sorted: number[], p: number) => sorted[Math.max(0, Math.ceil(p * sorted.length) - 1)] ?? 0;
+
+const summarize = (nominal: number, values: number[], higherIsWorse: boolean): Percentiles => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return { nominal, p50: percentile(sorted, 0.5), p90: percentile(sorted, higherIsWorse ? 0.9 : 0.1) };
+};
+
+// Runs the trip many times with sampled delays through the arrival shelf-life model and the waste
+// model of the impact estimate. Delay hours also age the lots at the cargo temperature.
+export function simulateDelays(lines: Vegetable[], legs: SimulatedLeg[], options: DelaySimulationOptions): DelayOutcome {
+  const { departure, minRemainingDays, cargoTempC, treatments = {}, trials = DEFAULT_TRIALS, seed = 1 } = options;
+  const lots = lines.map(applyMaturity);
+  const deliveries =
+    options.deliveries ?? lines.map((line) => ({ leg: Math.max(0, legs.length - 1), line, kg: getLineWeightKg(line) }));
+  const totalKg = deliveries.reduce((sum, d) => sum + d.kg, 0);
+
+  const runTrial = (delays: number[]) => {
+    let elapsed = 0;
+    let delayed = 0;
+    const legEnds = legs.map((leg, i) => {
+      elapsed += leg.hours + delays[i];
+      delayed += delays[i];
+      return { hour: elapsed, delay: delayed };
+    });
+    let qualityKg = 0;
+    let wasteKg = 0;
+    let lossValue = 0;
+    const remaining = deliveries.map(({ leg, line, kg }) => {
+      const end = legEnds[leg] ?? { hour: 0, delay: 0 };
+      const lot = applyMaturity(line);
+      const arrival = computeArrivalShelfLife([line], departure, end.hour, minRemainingDays)[0];
+      const agedByDelay =
+        end.delay > 0 ? evaluateSetpoint([line], cargoTempC, end.delay, treatments).items[0]?.lossFraction ?? 0 : 0;
+      const shortfall = arrival.status === 'low' ? (minRemainingDays - arrival.remainingAtArrivalDays) / minRemainingDays : 0;
+      const waste =
+        arrival.status === 'expired'
+          ? 1
+          : Math.min(1, optimizedWasteFraction(treatments[line.id] ?? []) + agedByDelay + shortfall * LOW_SHELF_LIFE_WASTE);
+      qualityKg += kg * Math.min(1, Math.max(0, arrival.remainingAtArrivalDays / lot.shelfLife));
+      wasteKg += kg * waste;
+      lossValue += kg * waste * getPricePerKg(line);
+      return arrival.remainingAtArrivalDays;
+    });
+    return {
+      duration: elapsed,
+      anyDelay: delayed > 0,
+      quality: totalKg > 0 ? (qualityKg / totalKg) * 100 : 0,
+      wastePct: totalKg > 0 ? (wasteKg / totalKg) * 100 : 0,
+      lossValue,
+      remaining,
+    };
+  };
+
+  const nominal = runTrial(legs.map(() => 0));
+  const random = seededRandom(seed);
+  const results = Array.from({ length: trials }, () => runTrial(legs.map((leg) => sampleDelay(leg.delay, random))));
+
+  return {
+    trials,
+    delayedShare: results.filter((r) => r.anyDelay).length / trials,
+    durationHours: summarize(nominal.duration, results.map((r) => r.duration), true),
+    quality: summarize(nominal.quality, results.map((r) => r.quality), false),
+    wastePct: summarize(nominal.wastePct, results.map((r) => r.wastePct), true),
+    lossValue: summarize(nominal.lossValue, results.map((r) => r.lossValue), true),
+    lines: deliveries.map((delivery, i) => {
+      const values = results.map((r) => r.remaining[i]);
+      const lot = lots.find((l) => l.id === delivery.line.id) ?? applyMaturity(delivery.line);
+      return {
+        id: `${delivery.line.id}:${delivery.leg}`,
+        name: getLineLabel(lot, lots),
+        leg: delivery.leg,
+        remainingDays: summarize(nominal.remaining[i], values, false),
+        expiredShare: values.filter((v) => v <= 0).length / trials,
+      };
+    }),
+  };
+}
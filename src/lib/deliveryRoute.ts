@@ -0,0 +1,118 @@
+import type { Vegetable } from '@/components/VegetableInput';
+import type { LineTreatments } from '@/lib/mitigations';
+import { ArrivalShelfLife, computeArrivalShelfLife } from '@/lib/arrivalShelfLife';
+import type { DelayDistribution } from '@/lib/delaySimulation';
+import { simulateEthylene } from '@/lib/ethyleneSimulation';
+import { TruckSize, calculateLoadCapacity, getKgPerUnit, getLineUnit } from '@/lib/loadUnits';
+import { getLineLabel } from '@/lib/lots';
+import { applyMaturity } from '@/lib/maturity';
+
+type TruckType = 'ambient' | 'refrigerated' | 'ventilated';
+
+export interface RouteStop {
+  id: string;
+  name: string;
+  legHours: number; // driving time from the previous stop (or the origin)
+  drops: Record<string, number>; // quantity unloaded per line id, in the line's own unit
+  delay?: DelayDistribution; // chance and length of holdups on this leg
+}
+
+// Ordered delivery stops after the origin; the last stop takes whatever is still on board
+export interface DeliveryRoute {
+  origin: string;
+  stops: RouteStop[];
+}
+
+export const EMPTY_ROUTE: DeliveryRoute = { origin: '', stops: [] };
+
+export const newRouteStop = (name = ''): RouteStop => ({ id: crypto.randomUUID(), name, legHours: 1, drops: {} });
+
+// Whole trip length: the sum of the legs when stops are set, otherwise the single route duration
+export const getRouteDurationHours = (route: DeliveryRoute | undefined, routeDurationHours: number) =>
+  route && route.stops.length > 0 ? route.stops.reduce((sum, stop) => sum + stop.legHours, 0) : routeDurationHours;
+
+export const stopName = (route: DeliveryRoute, index: number) =>
+  index < 0 ? route.origin.trim() || 'Origin' : route.stops[index].name.trim() || `Stop ${index + 1}`;
+
+export interface RouteDrop {
+  id: string;
+  name: string; // line label
+  quantity: number; // in the line's unit
+  kg: number;
+  shelfLife: ArrivalShelfLife; // at the moment it is unloaded
+}
+
+export interface RouteLeg {
+  index: number;
+  from: string;
+  to: string;
+  startHour: number; // hours after departure
+  endHour: number;
+  lines: Vegetable[]; // load on board during the leg
+  loadKg: number;
+  utilization: number; // %, of the trucks assigned at departure
+  bindingLimit: 'weight' | 'volume';
+  peakEthylenePpm: number;
+  ethyleneExceeded: string[]; // labels of lines pushed over their damage threshold on this leg
+  shelfLife: ArrivalShelfLife[]; // every line on board, at the end of the leg
+  drops: RouteDrop[];
+}
+
+export interface RouteLegOptions {
+  departure: Date;
+  truckType: TruckType;
+  truckSize: TruckSize;
+  truckCount: number; // trucks loaded at the origin stay with the load for the whole route
+  cargoTempC: number;
+  treatments?: LineTreatments;
+  minRemainingDays: number;
+}
+
+// Walks the route leg by leg: each leg carries what the earlier stops left on board.
+// Unloading with the doors open flushes the cargo air, so every leg's ethylene starts clean.
+export function planRouteLegs(lines: Vegetable[], route: DeliveryRoute, options: RouteLegOptions): RouteLeg[] {
+  const { departure, truckType, truckSize, truckCount, cargoTempC, treatments = {}, minRemainingDays } = options;
+  const lots = lines.map(applyMaturity);
+  const label = (line: Vegetable) => getLineLabel(lots.find((lot) => lot.id === line.id) ?? line, lots);
+  let onBoard = lines.filter((line) => line.quantity > 0);
+  let startHour = 0;
+
+  return route.stops.map((stop, index) => {
+    const endHour = startHour + stop.legHours;
+    const capacity = calculateLoadCapacity(onBoard, truckSize, truckCount);
+    const ethylene = simulateEthylene(onBoard, truckType, truckSize, truckCount, stop.legHours, cargoTempC, treatments);
+    const shelfLife = computeArrivalShelfLife(onBoard, departure, endHour, minRemainingDays);
+    const last = index === route.stops.length - 1;
+
+    const drops = onBoard
+      .map((line, i) => {
+        const quantity = last ? line.quantity : Math.min(line.quantity, Math.max(0, stop.drops[line.id] ?? 0));
+        return { id: line.id, name: label(line), quantity, kg: quantity * getKgPerUnit(line, getLineUnit(line)), shelfLife: shelfLife[i] };
+      })
+      .filter((drop) => drop.quantity > 0);
+
+    const leg: RouteLeg = {
+      index,
+      from: stopName(route, index - 1),
+      to: stopName(route, index),
+      startHour,
+      endHour,
+      lines: onBoard,
+      loadKg: capacity.totalKg,
+      utilization: capacity.utilization,
+      bindingLimit: capacity.bindingLimit,
+      peakEthylenePpm: ethylene.peakPpm,
+      ethyleneExceeded: ethylene.exposures
+        .filter((e) => e.status === 'exceeded')
+        .map((e) => label(onBoard.find((line) => line.id === e.id)!)),
+      shelfLife,
+      drops,
+    };
+
+    onBoard = onBoard
+      .map((line) => ({ ...line, quantity: line.quantity - (drops.find((drop) => drop.id === line.id)?.quantity ?? 0) }))
+      .filter((line) => line.quantity > 0);
+    startHour = endHour;
+    return leg;
+  });
+}
@@ -0,0 +1,173 @@
+import type { Vegetable } from '@/components/VegetableInput';
+import type { LineTreatments } from '@/lib/mitigations';
+import { RegionId, ambientTempAt } from '@/lib/diurnalProfiles';
+import { evaluateSetpoint, optimizeSetpoint } from '@/lib/setpointOptimizer';
+
+type TruckType = 'ambient' | 'refrigerated' | 'ventilated';
+export type TravelTime = 'early_morning' | 'daytime' | 'evening' | 'night';
+
+export const TRAVEL_TIME_LABELS: Record<TravelTime, string> = {
+  early_morning: 'Early Morning',
+  daytime: 'Daytime',
+  evening: 'Evening',
+  night: 'Night',
+};
+
+// Share of the outside air's excess over the setpoint that a reefer lets through
+const REEFER_LEAK_FACTOR = 0.1;
+
+// Closed ambient vans heat up in the sun, most at midday, °C
+const SOLAR_GAIN_C = 3;
+
+// Exposure curve and loss are integrated in steps of this length, hours
+const STEP_HOURS = 0.5;
+
+// Candidate departures, one per hour from the planned departure
+const CANDIDATE_COUNT = 24;
+
+export interface ExposurePoint {
+  hour: number; // hours since departure
+  clock: string; // local time, HH:MM
+  ambientC: number;
+  cargoC: number;
+}
+
+export interface DepartureCandidate {
+  departure: Date;
+  travelTime: TravelTime;
+  lossValue: number; // PHP, kg- and price-weighted share of shelf life lost in transit
+  meanAmbientC: number;
+  peakAmbientC: number;
+}
+
+export interface DeparturePlan {
+  planned: DepartureCandidate;
+  best: DepartureCandidate;
+  candidates: DepartureCandidate[];
+  plannedCurve: ExposurePoint[];
+  bestCurve: ExposurePoint[];
+  setpointC: number | null; // reefer setpoint the cargo is held at; null for uncooled trucks
+}
+
+export interface DeparturePlanInputs {
+  region: RegionId;
+  departure: Date;
+  routeDurationHours: number;
+  truckType: TruckType;
+  setpointC?: number | null; // unset follows the compromise setpoint
+  treatments?: LineTreatments;
+}
+
+// Buckets the status bar and reports have always used for travel windows
+export function travelTimeOf(date: Date): TravelTime {
+  const hour = date.getHours();
+  if (hour >= 4 && hour < 8) return 'early_morning';
+  if (hour >= 8 && hour < 16) return 'daytime';
+  if (hour >= 16 && hour < 20) return 'evening';
+  return 'night';
+}
+
+const formatClock = (date: Date) => `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+
+// Sun on the body between 06:00 and 18:00
+const solarFactor = (date: Date) => {
+  const hour = date.getHours() + date.getMinutes() / 60;
+  return hour > 6 && hour < 18 ? Math.sin((Math.PI * (hour - 6)) / 12) : 0;
+};
+
+function cargoTemp(ambientC: number, date: Date, truckType: TruckType, setpointC: number | null): number {
+  if (truckType === 'refrigerated' && setpointC !== null) return setpointC + REEFER_LEAK_FACTOR * Math.max(0, ambientC - setpointC);
+  if (truckType === 'ambient') return ambientC + SOLAR_GAIN_C * solarFactor(date);
+  return ambientC;
+}
+
+// Outside and cargo air temperature over the trip, sampled at every step and at arrival
+export function exposureCurve(
+  region: RegionId,
+  departure: Date,
+  routeDurationHours: number,
+  truckType: TruckType,
+  setpointC: number | null
+): ExposurePoint[] {
+  const hours: number[] = [];
+  for (let hour = 0; hour < routeDurationHours; hour += STEP_HOURS) hours.push(hour);
+  hours.push(routeDurationHours);
+  return hours.map((hour) => {
+    const at = new Date(departure.getTime() + hour * 3_600_000);
+    const ambientC = ambientTempAt(region, at);
+    const round = (value: number) => Math.round(value * 10) / 10;
+    return { hour, clock: formatClock(at), ambientC: round(ambientC), cargoC: round(cargoTemp(ambientC, at, truckType, setpointC)) };
+  });
+}
+
+// Each step's cargo temperature weighted by its share of the trip. Warm decay adds up exactly this
+// way; chilling and freezing count for the share of the trip spent below the threshold.
+function transitLoss(lines: Vegetable[], curve: ExposurePoint[], routeDurationHours: number, treatments: LineTreatments): number {
+  const fractions = new Map<string, number>();
+  let value = 0;
+  for (let i = 0; i < curve.length - 1; i++) {
+    const dt = curve[i + 1].hour - curve[i].hour;
+    const temp = (curve[i].cargoC + curve[i + 1].cargoC) / 2;
+    evaluateSetpoint(lines, temp, routeDurationHours, treatments).items.forEach((item) => {
+      const before = fractions.get(item.id) ?? 0;
+      const after = Math.min(1, before + (item.lossFraction * dt) / routeDurationHours);
+      fractions.set(item.id, after);
+      value += (after - before) * item.kg * item.pricePerKg;
+    });
+  }
+  return value;
+}
+
+function evaluateDeparture(
+  lines: Vegetable[],
+  departure: Date,
+  { region, routeDurationHours, truckType, treatments = {} }: DeparturePlanInputs,
+  setpointC: number | null
+): { candidate: DepartureCandidate; curve: ExposurePoint[] } {
+  const curve = exposureCurve(region, departure, routeDurationHours, truckType, setpointC);
+  const ambient = curve.map((point) => point.ambientC);
+  return {
+    curve,
+    candidate: {
+      departure,
+      travelTime: travelTimeOf(departure),
+      lossValue: transitLoss(lines, curve, routeDurationHours, treatments),
+      meanAmbientC: ambient.reduce((sum, t) => sum + t, 0) / ambient.length,
+      peakAmbientC: Math.max(...ambient),
+    },
+  };
+}
+
+// Tries every hour over the next day from the planned departure and keeps the one with the lowest
+// predicted loss; among equals the cooler trip wins, then the earlier one
+export function planDeparture(lines: Vegetable[], inputs: DeparturePlanInputs): DeparturePlan {
+  const { departure, routeDurationHours, truckType, treatments = {} } = inputs;
+  const setpointC =
+    truckType === 'refrigerated'
+      ? inputs.setpointC ?? (lines.length > 0 ? optimizeSetpoint(lines, routeDurationHours, treatments).setpoint : null)
+      : null;
+
+  const planned = evaluateDeparture(lines, departure, inputs, setpointC);
+  // Candidates start on the first whole hour at or after the planned departure
+  const start = new Date(departure);
+  if (start.getMinutes() > 0 || start.getSeconds() > 0 || start.getMilliseconds() > 0) start.setHours(start.getHours() + 1, 0, 0, 0);
+  const candidates = Array.from({ length: CANDIDATE_COUNT }, (_, i) =>
+    evaluateDeparture(lines, new Date(start.getTime() + i * 3_600_000), inputs, setpointC)
+  );
+  const best = [planned, ...candidates].reduce((winner, option) =>
+    option.candidate.lossValue < winner.candidate.lossValue - 0.5 ||
+    (Math.abs(option.candidate.lossValue - winner.candidate.lossValue) <= 0.5 &&
+      option.candidate.meanAmbientC < winner.candidate.meanAmbientC - 0.05)
+      ? option
+      : winner
+  );
+
+  return {
+    planned: planned.candidate,
+    best: best.candidate,
+    candidates: candidates.map((c) => c.candidate),
+    plannedCurve: planned.curve,
+    bestCurve: best.curve,
+    setpointC,
+  };
+}
@@ -0,0 +1,90 @@
+// Offline climate normals for the main produce regions, so departure planning works without a weather feed
+
+export type RegionId =
+  | 'ncr'
+  | 'cordillera'
+  | 'central_luzon'
+  | 'bicol'
+  | 'western_visayas'
+  | 'central_visayas'
+  | 'bukidnon'
+  | 'davao';
+
+export interface RegionProfile {
+  id: RegionId;
+  name: string;
+  // Mean daily minimum and maximum air temperature per month, January first, °C
+  monthly: [min: number, max: number][];
+}
+
+export const DEFAULT_REGION_ID: RegionId = 'ncr';
+
+export const REGION_PROFILES: Record<RegionId, RegionProfile> = {
+  ncr: {
+    id: 'ncr',
+    name: 'Metro Manila',
+    monthly: [[24, 30], [24, 31], [25, 32], [26, 34], [27, 34], [26, 33], [25, 31], [25, 31], [25, 31], [25, 31], [25, 31], [24, 30]],
+  },
+  cordillera: {
+    id: 'cordillera',
+    name: 'Cordillera highlands (Baguio, Benguet)',
+    monthly: [[13, 23], [14, 24], [15, 25], [16, 26], [17, 26], [17, 25], [16, 24], [16, 23], [16, 24], [16, 24], [15, 24], [14, 23]],
+  },
+  central_luzon: {
+    id: 'central_luzon',
+    name: 'Central Luzon (Nueva Ecija, Tarlac)',
+    monthly: [[21, 30], [21, 31], [22, 33], [24, 35], [25, 35], [25, 33], [24, 31], [24, 31], [24, 31], [23, 31], [23, 31], [22, 30]],
+  },
+  bicol: {
+    id: 'bicol',
+    name: 'Bicol',
+    monthly: [[23, 29], [23, 29], [23, 30], [24, 32], [25, 33], [25, 33], [24, 32], [24, 32], [24, 32], [24, 31], [24, 30], [23, 29]],
+  },
+  western_visayas: {
+    id: 'western_visayas',
+    name: 'Western Visayas (Iloilo)',
+    monthly: [[23, 30], [23, 31], [24, 32], [25, 34], [26, 34], [25, 32], [25, 31], [25, 31], [24, 31], [24, 31], [24, 31], [24, 30]],
+  },
+  central_visayas: {
+    id: 'central_visayas',
+    name: 'Central Visayas (Cebu)',
+    monthly: [[24, 30], [24, 30], [24, 31], [25, 32], [26, 33], [26, 32], [25, 32], [25, 32], [25, 32], [25, 31], [25, 31], [24, 30]],
+  },
+  bukidnon: {
+    id: 'bukidnon',
+    name: 'Northern Mindanao highlands (Bukidnon)',
+    monthly: [[18, 28], [18, 28], [18, 30], [19, 31], [20, 30], [20, 29], [19, 28], [19, 29], [19, 29], [19, 29], [19, 29], [19, 28]],
+  },
+  davao: {
+    id: 'davao',
+    name: 'Davao',
+    monthly: [[23, 31], [23, 31], [23, 32], [24, 33], [24, 33], [24, 32], [24, 31], [24, 32], [24, 32], [24, 32], [24, 32], [24, 31]],
+  },
+};
+
+// Coolest just after sunrise, warmest mid-afternoon
+const MIN_HOUR = 6;
+const MAX_HOUR = 14;
+
+// Position between the day's minimum (0) and maximum (1) at a local clock hour:
+// a half cosine up over the morning, a slower one down through the night
+export function diurnalFraction(hour: number): number {
+  const h = ((hour % 24) + 24) % 24;
+  if (h >= MIN_HOUR && h < MAX_HOUR) return (1 - Math.cos((Math.PI * (h - MIN_HOUR)) / (MAX_HOUR - MIN_HOUR))) / 2;
+  const falling = (h - MAX_HOUR + 24) % 24;
+  return (1 + Math.cos((Math.PI * falling) / (24 - MAX_HOUR + MIN_HOUR))) / 2;
+}
+
+export const getRegionProfile = (id: RegionId | undefined) => REGION_PROFILES[id ?? DEFAULT_REGION_ID] ?? REGION_PROFILES[DEFAULT_REGION_ID];
+
+// Day-night swing for the region in the month of the given date, °C
+export function getDiurnalSwing(region: RegionId | undefined, date: Date): number {
+  const [min, max] = getRegionProfile(region).monthly[date.getMonth()];
+  return max - min;
+}
+
+// Typical outside air temperature at a local date and time, °C
+export function ambientTempAt(region: RegionId | undefined, date: Date): number {
+  const [min, max] = getRegionProfile(region).monthly[date.getMonth()];
+  return min + (max - min) * diurnalFraction(date.getHours() + date.getMinutes() / 60);
+}
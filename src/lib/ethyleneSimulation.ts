@@ -0,0 +1,125 @@
+import type { Vegetable } from '@/components/VegetableInput';
+import { MATURITY_STAGES, applyMaturity } from '@/lib/maturity';
+import { getLineLabel } from '@/lib/lots';
+import { TruckSize, calculateLoadCapacity, getLineWeightKg } from '@/lib/loadUnits';
+import type { LineTreatments, TreatmentId } from '@/lib/mitigations';
+
+type Level = Vegetable['ethyleneProduction'];
+type TruckType = 'ambient' | 'refrigerated' | 'ventilated';
+
+// Typical production at 20°C for each class, µL C2H4 per kg per hour
+export const DEFAULT_ETHYLENE_RATE: Record<Level, number> = { low: 0.1, medium: 1, high: 10 };
+
+// Concentration in the cargo air at which each sensitivity class starts to show damage, ppm
+export const DEFAULT_ETHYLENE_THRESHOLD_PPM: Record<Level, number> = { low: 10, medium: 1, high: 0.1 };
+
+// Fresh-air changes per hour: reefers run closed with a small vent, ambient vans leak through
+// doors and slats, ventilated bodies are built for airflow
+export const AIR_EXCHANGE_PER_HOUR: Record<TruckType, number> = { refrigerated: 0.5, ambient: 2, ventilated: 10 };
+
+// Cargo air temperature assumed when the truck is not cooled, °C
+export const UNCOOLED_CARGO_TEMP_C = 28;
+
+// Extra ethylene removal, in air-change equivalents per hour, when a treatment covers the whole load
+const TREATMENT_REMOVAL_PER_HOUR: Partial<Record<TreatmentId, number>> = { ethylene_scrubber: 4, absorber_sachets: 1 };
+
+// MAP bags trap most of a lot's own ethylene and shield it from the cargo air; 1-MCP blocks the receptor
+const MAP_RELEASE_FACTOR = 0.3;
+const MAP_THRESHOLD_FACTOR = 3;
+const ONE_MCP_THRESHOLD_FACTOR = 10;
+
+// Each maturity step changes the rate about threefold
+const MATURITY_RATE_STEP = 3;
+
+// Production roughly doubles with every 10°C (Q10 of 2)
+const temperatureFactor = (tempC: number) => Math.pow(2, (tempC - 20) / 10);
+
+export interface EthyleneExposure {
+  id: string;
+  name: string;
+  thresholdPpm: number;
+  exceedsAtHour: number | null; // first hour the cargo air is at or above the threshold
+  status: 'ok' | 'exceeded';
+}
+
+export interface EthyleneSimulation {
+  points: { hour: number; ppm: number }[];
+  peakPpm: number;
+  steadyStatePpm: number; // level the air would settle at on an endless trip
+  productionUlPerHour: number;
+  airVolumeM3: number;
+  airExchangePerHour: number; // ventilation plus scrubber and sachet removal
+  cargoTempC: number;
+  exposures: EthyleneExposure[];
+}
+
+// Per-kg production of one lot at the cargo temperature. Catalog rates are for breaker stage.
+export function getEthyleneRate(line: Vegetable, cargoTempC: number): number {
+  const shift = line.maturity ? MATURITY_STAGES[line.maturity].productionShift : 0;
+  const rate =
+    line.ethyleneRate !== undefined
+      ? line.ethyleneRate * Math.pow(MATURITY_RATE_STEP, shift)
+      : DEFAULT_ETHYLENE_RATE[applyMaturity(line).ethyleneProduction];
+  return rate * temperatureFactor(cargoTempC);
+}
+
+export function getEthyleneThreshold(line: Vegetable): number {
+  return line.ethyleneThresholdPpm ?? DEFAULT_ETHYLENE_THRESHOLD_PPM[applyMaturity(line).ethyleneSensitivity];
+}
+
+// Well-mixed box model: dC/dt = P / V − k·C, starting from clean air.
+// Air volume is the truck space not taken up by the packed load.
+export function simulateEthylene(
+  lines: Vegetable[],
+  truckType: TruckType,
+  truckSize: TruckSize,
+  truckCount: number | undefined,
+  routeDurationHours: number,
+  cargoTempC: number,
+  treatments: LineTreatments = {}
+): EthyleneSimulation {
+  const capacity = calculateLoadCapacity(lines, truckSize, truckCount);
+  const airVolumeM3 = Math.max(capacity.capacityM3 - capacity.totalM3, capacity.capacityM3 * 0.15);
+  const has = (line: Vegetable, treatment: TreatmentId) => (treatments[line.id] ?? []).includes(treatment);
+  // Scrubbers and sachets remove ethylene in proportion to the share of the load they cover
+  const totalKg = lines.reduce((sum, line) => sum + getLineWeightKg(line), 0);
+  const removal = (Object.keys(TREATMENT_REMOVAL_PER_HOUR) as TreatmentId[]).reduce((sum, treatment) => {
+    const coveredKg = lines.filter((line) => has(line, treatment)).reduce((kg, line) => kg + getLineWeightKg(line), 0);
+    return sum + (totalKg > 0 ? TREATMENT_REMOVAL_PER_HOUR[treatment] * (coveredKg / totalKg) : 0);
+  }, 0);
+  const k = AIR_EXCHANGE_PER_HOUR[truckType] + removal;
+  const productionUlPerHour = lines.reduce(
+    (sum, line) => sum + getEthyleneRate(line, cargoTempC) * getLineWeightKg(line) * (has(line, 'map') ? MAP_RELEASE_FACTOR : 1),
+    0
+  );
+  // 1 ppm = 1 µL per litre = 1000 µL per m³
+  const steadyStatePpm = productionUlPerHour / (k * airVolumeM3 * 1000);
+  const ppmAt = (hour: number) => steadyStatePpm * (1 - Math.exp(-k * hour));
+
+  const duration = Math.max(0, routeDurationHours);
+  const steps = Math.max(1, Math.min(96, Math.ceil(duration * 4)));
+  const points = Array.from({ length: steps + 1 }, (_, i) => {
+    const hour = (duration * i) / steps;
+    return { hour: Math.round(hour * 100) / 100, ppm: ppmAt(hour) };
+  });
+  const peakPpm = ppmAt(duration);
+
+  const lots = lines.map(applyMaturity);
+  const exposures = lines.map((line, index) => {
+    const thresholdPpm =
+      getEthyleneThreshold(line) * (has(line, 'map') ? MAP_THRESHOLD_FACTOR : 1) * (has(line, 'one_mcp') ? ONE_MCP_THRESHOLD_FACTOR : 1);
+    // Invert the curve to find when the threshold is crossed
+    const exceedsAtHour =
+      thresholdPpm >= steadyStatePpm ? null : -Math.log(1 - thresholdPpm / steadyStatePpm) / k;
+    const exceeded = exceedsAtHour !== null && exceedsAtHour <= duration;
+    return {
+      id: line.id,
+      name: getLineLabel(lots[index], lots),
+      thresholdPpm,
+      exceedsAtHour: exceeded ? exceedsAtHour : null,
+      status: exceeded ? 'exceeded' : 'ok',
+    } as EthyleneExposure;
+  });
+
+  return { points, peakPpm, steadyStatePpm, productionUlPerHour, airVolumeM3, airExchangePerHour: k, cargoTempC, exposures };
+}
@@ -0,0 +1,144 @@
+import type { Vegetable } from '@/components/VegetableInput';
+import { applyMaturity } from '@/lib/maturity';
+import { getLineWeightKg } from '@/lib/loadUnits';
+import { EvaluationOptions, Finding, PairEvaluation, Severity, evaluateLoad } from '@/lib/compatibilityRules';
+import { MITIGATIONS, TreatmentId } from '@/lib/mitigations';
+
+type Level = Vegetable['ethyleneProduction'];
+type TruckType = 'ambient' | 'refrigerated' | 'ventilated';
+
+export type RiskFactorId = 'ethylene' | 'conflicts' | 'route' | 'ambient';
+
+export interface RiskFactor {
+  id: RiskFactorId;
+  label: string;
+  weight: number; // most points the factor can add
+  exposure: number; // 0–1
+  points: number;
+  detail: string;
+}
+
+export interface LoadRisk {
+  score: number; // 0–100
+  level: 'low' | 'moderate' | 'high';
+  factors: RiskFactor[];
+}
+
+export interface LoadRiskInputs {
+  routeDurationHours: number;
+  ambientDeltaC: number;
+  truckType: TruckType;
+  evaluation?: EvaluationOptions;
+}
+
+// Points per factor; they add up to 100
+const FACTOR_WEIGHTS: Record<RiskFactorId, number> = { ethylene: 35, conflicts: 25, route: 20, ambient: 20 };
+
+const FACTOR_LABELS: Record<RiskFactorId, string> = {
+  ethylene: 'Ethylene exposure',
+  conflicts: 'Temperature, humidity & odor',
+  route: 'Route duration',
+  ambient: 'Ambient swing',
+};
+
+// Every level counts, so medium producers and medium-sensitive lots add risk even when no rule fires
+const LEVEL_WEIGHT: Record<Level, number> = { low: 0.1, medium: 0.5, high: 1 };
+
+const SEVERITY_WEIGHT: Record<Severity, number> = { low: 0.33, medium: 0.67, high: 1 };
+
+// Share of the load made up of high producers at which a sensitive lot is fully exposed
+const PRODUCER_SATURATION_SHARE = 0.2;
+
+// Treatments on the sensitive lot scale its sensitivity; those on the producer scale its output
+const SENSITIVITY_FACTOR: Partial<Record<TreatmentId, number>> = { map: 0.3, one_mcp: 0.1 };
+const PRODUCTION_FACTOR: Partial<Record<TreatmentId, number>> = { ethylene_scrubber: 0.2, absorber_sachets: 0.5, map: 0.3 };
+
+// A trip that uses this share of a lot's shelf life is the worst case
+const ROUTE_SHELF_LIFE_SHARE = 0.1;
+
+// Day-night swing at which an uncooled load is fully exposed, °C
+const FULL_SWING_C = 10;
+
+// How much of the outside swing reaches the cargo
+const TRUCK_SWING_FACTOR: Record<TruckType, number> = { refrigerated: 0.3, ventilated: 0.8, ambient: 1 };
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const treatmentFactor = (treatments: TreatmentId[], factors: Partial<Record<TreatmentId, number>>) =>
+  treatments.reduce((product, id) => product * (factors[id] ?? 1), 1);
+
+// Pairs the planner sent to another compartment or truck no longer share air
+const separated = (evaluation: PairEvaluation) =>
+  [...evaluation.findings, ...evaluation.resolved].some((f) => f.applied && MITIGATIONS[f.applied.id].separates);
+
+// 0–100 score for comparing loads: ethylene levels and open conflicts weighted by the kg they
+// touch, plus the route's length against shelf life and the day-night swing the truck lets in
+export function computeLoadRisk(
+  lines: Vegetable[],
+  { routeDurationHours, ambientDeltaC, truckType, evaluation = {} }: LoadRiskInputs
+): LoadRisk {
+  const lots = lines.map(applyMaturity);
+  const totalKg = lots.reduce((sum, lot) => sum + getLineWeightKg(lot), 0);
+  const share = (lot: Vegetable) => (totalKg > 0 ? getLineWeightKg(lot) / totalKg : 0);
+  const treatments = (lot: Vegetable) => evaluation.treatments?.[lot.id] ?? [];
+  const evaluations = evaluateLoad(lines, evaluation);
+  const pairOf = (a: Vegetable, b: Vegetable) =>
+    evaluations.find((e) => (e.a.id === a.id && e.b.id === b.id) || (e.a.id === b.id && e.b.id === a.id));
+
+  // Each lot's sensitivity times the producer output it shares air with
+  let exposedKg = 0;
+  const ethylene = lots.reduce((sum, lot) => {
+    const pressure = lots
+      .filter((other) => other.id !== lot.id && !separated(pairOf(lot, other)!))
+      .reduce(
+        (total, other) =>
+          total + share(other) * LEVEL_WEIGHT[other.ethyleneProduction] * treatmentFactor(treatments(other), PRODUCTION_FACTOR),
+        0
+      );
+    const exposure =
+      LEVEL_WEIGHT[lot.ethyleneSensitivity] *
+      treatmentFactor(treatments(lot), SENSITIVITY_FACTOR) *
+      clamp01(pressure / PRODUCER_SATURATION_SHARE);
+    if (exposure >= LEVEL_WEIGHT.medium / 2) exposedKg += getLineWeightKg(lot);
+    return sum + share(lot) * exposure;
+  }, 0);
+
+  // Each lot's worst open non-ethylene finding; blocking ones count in full
+  const conflictWeight = (findings: Finding[]) =>
+    findings.reduce((worst, f) => Math.max(worst, f.blocking ? 1 : SEVERITY_WEIGHT[f.severity]), 0);
+  const conflicting = lots.map((lot) =>
+    conflictWeight(
+      evaluations
+        .filter((e) => e.a.id === lot.id || e.b.id === lot.id)
+        .flatMap((e) => e.findings)
+        .filter((f) => f.type !== 'ethylene')
+    )
+  );
+  const conflicts = lots.reduce((sum, lot, i) => sum + share(lot) * conflicting[i], 0);
+  const conflictKg = lots.reduce((sum, lot, i) => sum + (conflicting[i] > 0 ? getLineWeightKg(lot) : 0), 0);
+
+  const routeDays = routeDurationHours / 24;
+  const route = lots.reduce((sum, lot) => sum + share(lot) * clamp01(routeDays / (lot.shelfLife * ROUTE_SHELF_LIFE_SHARE)), 0);
+  const shortestShelfLife = lots.length > 0 ? Math.min(...lots.map((lot) => lot.shelfLife)) : 0;
+
+  const ambient = lots.length > 0 ? clamp01(ambientDeltaC / FULL_SWING_C) * TRUCK_SWING_FACTOR[truckType] : 0;
+
+  const details: Record<RiskFactorId, string> = {
+    ethylene: exposedKg > 0 ? `${Math.round(exposedKg)} kg of sensitive produce shares air with producers` : 'No sensitive lot near producers',
+    conflicts: conflictKg > 0 ? `${Math.round(conflictKg)} kg in open conflicts` : 'No open conflicts',
+    route: lots.length > 0 ? `${routeDurationHours} h against a shortest shelf life of ${shortestShelfLife} days` : 'No load',
+    ambient: `${ambientDeltaC}°C day-night swing in a${truckType === 'ambient' ? 'n' : ''} ${truckType} truck`,
+  };
+  const exposures: Record<RiskFactorId, number> = { ethylene: clamp01(ethylene), conflicts: clamp01(conflicts), route, ambient };
+
+  const factors = (Object.keys(FACTOR_WEIGHTS) as RiskFactorId[]).map((id) => ({
+    id,
+    label: FACTOR_LABELS[id],
+    weight: FACTOR_WEIGHTS[id],
+    exposure: exposures[id],
+    points: Math.round(FACTOR_WEIGHTS[id] * exposures[id] * 10) / 10,
+    detail: details[id],
+  }));
+  const score = Math.round(factors.reduce((sum, f) => sum + f.weight * f.exposure, 0));
+  return { score, level: score >= 50 ? 'high' : score >= 25 ? 'moderate' : 'low', factors };
+}
@@ -0,0 +1,95 @@
+import type { Vegetable } from '@/components/VegetableInput';
+
+export type PackageUnit = 'kaing' | 'crate' | 'sack' | 'pallet';
+
+export type QuantityUnit = 'kg' | PackageUnit;
+
+export type TruckSize = 'small' | 'medium' | 'large';
+
+export const QUANTITY_UNITS: Record<QuantityUnit, { label: string; plural: string }> = {
+  kg: { label: 'kg', plural: 'kg' },
+  kaing: { label: 'kaing', plural: 'kaing' },
+  crate: { label: 'crate', plural: 'crates' },
+  sack: { label: 'sack', plural: 'sacks' },
+  pallet: { label: 'pallet', plural: 'pallets' },
+};
+
+export const PACKAGE_UNITS: PackageUnit[] = ['kaing', 'crate', 'sack', 'pallet'];
+
+// Outer volume each package takes in the cargo space, m³
+export const PACKAGE_VOLUME_M3: Record<PackageUnit, number> = {
+  kaing: 0.05, // woven bamboo basket
+  crate: 0.05, // standard plastic crate
+  sack: 0.08,
+  pallet: 1.8, // stacked crates on a 1.2 × 1.0 m pallet
+};
+
+// Packed density for produce without its own figure, kg/m³
+export const DEFAULT_BULK_DENSITY = 400;
+
+// Payload and usable cargo volume per truck class (L300/FB van, 6-wheeler Elf, 10-wheeler wing van)
+export const TRUCK_CAPACITY: Record<TruckSize, { payloadKg: number; volumeM3: number }> = {
+  small: { payloadKg: 1000, volumeM3: 7 },
+  medium: { payloadKg: 4000, volumeM3: 20 },
+  large: { payloadKg: 10000, volumeM3: 40 },
+};
+
+type ConvertibleLine = Pick<Vegetable, 'quantity' | 'unit' | 'bulkDensity' | 'unitWeightsKg'>;
+
+export const getLineUnit = (line: Pick<Vegetable, 'unit'>): QuantityUnit => line.unit ?? 'kg';
+
+export const getBulkDensity = (line: Pick<Vegetable, 'bulkDensity'>) => line.bulkDensity ?? DEFAULT_BULK_DENSITY;
+
+// kg of this produce in one package; catalog overrides win over the density estimate
+export function getKgPerUnit(line: Omit<ConvertibleLine, 'quantity'>, unit: QuantityUnit = getLineUnit(line)): number {
+  if (unit === 'kg') return 1;
+  return line.unitWeightsKg?.[unit] ?? Math.round(getBulkDensity(line) * PACKAGE_VOLUME_M3[unit] * 10) / 10;
+}
+
+export const getLineWeightKg = (line: ConvertibleLine) => line.quantity * getKgPerUnit(line);
+
+// Loose kg lines take space by density; packaged lines by their package footprint
+export function getLineVolumeM3(line: ConvertibleLine): number {
+  const unit = getLineUnit(line);
+  if (unit === 'kg') return line.quantity / getBulkDensity(line);
+  return line.quantity * PACKAGE_VOLUME_M3[unit];
+}
+
+export const formatQuantity = (quantity: number, unit: QuantityUnit) =>
+  `${quantity} ${quantity === 1 ? QUANTITY_UNITS[unit].label : QUANTITY_UNITS[unit].plural}`;
+
+export interface LoadCapacity {
+  totalKg: number;
+  totalM3: number;
+  trucksNeeded: number;
+  capacityKg: number;
+  capacityM3: number;
+  weightUtilization: number; // %
+  volumeUtilization: number; // %
+  utilization: number; // % of whichever limit binds
+  bindingLimit: 'weight' | 'volume';
+}
+
+// Check the load against both payload and cubic volume; the tighter limit decides the truck count
+export function calculateLoadCapacity(lines: ConvertibleLine[], truckSize: TruckSize, truckCount?: number): LoadCapacity {
+  const { payloadKg, volumeM3 } = TRUCK_CAPACITY[truckSize];
+  const totalKg = lines.reduce((sum, line) => sum + getLineWeightKg(line), 0);
+  const totalM3 = lines.reduce((sum, line) => sum + getLineVolumeM3(line), 0);
+  const trucksNeeded = Math.max(1, Math.ceil(totalKg / payloadKg), Math.ceil(totalM3 / volumeM3));
+  const trucks = Math.max(1, truckCount ?? trucksNeeded);
+  const weightUtilization = (totalKg / (payloadKg * trucks)) * 100;
+  const volumeUtilization = (totalM3 / (volumeM3 * trucks)) * 100;
+  const bindingLimit = volumeUtilization > weightUtilization ? 'volume' : 'weight';
+
+  return {
+    totalKg,
+    totalM3,
+    trucksNeeded,
+    capacityKg: payloadKg * trucks,
+    capacityM3: volumeM3 * trucks,
+    weightUtilization,
+    volumeUtilization,
+    utilization: Math.max(weightUtilization, volumeUtilization),
+    bindingLimit,
+  };
+}
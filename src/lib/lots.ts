@@ -0,0 +1,33 @@
+import type { Vegetable } from '@/components/VegetableInput';
+
+export type LotGrade = 'A' | 'B' | 'C';
+
+export const LOT_GRADES: LotGrade[] = ['A', 'B', 'C'];
+
+// Next free code for another lot of the same produce, e.g. CAB-2
+export function nextLotCode(name: string, lines: Pick<Vegetable, 'name' | 'lotCode'>[]): string {
+  const prefix = name.replace(/[^a-z]/gi, '').slice(0, 3).toUpperCase() || 'LOT';
+  const taken = new Set(lines.map((line) => line.lotCode));
+  let n = lines.filter((line) => line.name === name).length + 1;
+  while (taken.has(`${prefix}-${n}`)) n++;
+  return `${prefix}-${n}`;
+}
+
+// Name shown wherever a single line is reported. The lot code is added only when the load
+// carries more than one lot of that produce, so single-lot loads read as before.
+export function getLineLabel(line: Pick<Vegetable, 'name' | 'lotCode'>, lines?: Pick<Vegetable, 'name'>[]): string {
+  if (!line.lotCode) return line.name;
+  if (lines && lines.filter((other) => other.name === line.name).length < 2) return line.name;
+  return `${line.name} (${line.lotCode})`;
+}
+
+// Lots of the same produce in first-seen order, for views that summarise by produce
+export function groupByProduce<T extends Pick<Vegetable, 'name'>>(lines: T[]): { name: string; lots: T[] }[] {
+  const groups = new Map<string, T[]>();
+  lines.forEach((line) => {
+    groups.set(line.name, [...(groups.get(line.name) ?? []), line]);
+  });
+  return Array.from(groups, ([name, lots]) => ({ name, lots }));
+}
+
+export const uniqueProduceNames = (lines: Pick<Vegetable, 'name'>[]) => Array.from(new Set(lines.map((line) => line.name)));
@@ -0,0 +1,31 @@
+import type { Vegetable } from '@/components/VegetableInput';
+
+export type MaturityStage = 'green' | 'breaker' | 'turning' | 'ripe';
+
+type Level = Vegetable['ethyleneProduction'];
+
+// Catalog values describe a lot at breaker stage. Earlier lots make less ethylene but react
+// more to it and keep longer; riper lots flip that.
+export const MATURITY_STAGES: Record<MaturityStage, { label: string; productionShift: number; sensitivityShift: number; shelfLifeFactor: number }> = {
+  green: { label: 'Mature green', productionShift: -1, sensitivityShift: 1, shelfLifeFactor: 1.4 },
+  breaker: { label: 'Breaker', productionShift: 0, sensitivityShift: 0, shelfLifeFactor: 1 },
+  turning: { label: 'Turning', productionShift: 1, sensitivityShift: -1, shelfLifeFactor: 0.75 },
+  ripe: { label: 'Table ripe', productionShift: 1, sensitivityShift: -1, shelfLifeFactor: 0.45 },
+};
+
+const LEVELS: Level[] = ['low', 'medium', 'high'];
+
+const shiftLevel = (level: Level, steps: number): Level =>
+  LEVELS[Math.min(LEVELS.length - 1, Math.max(0, LEVELS.indexOf(level) + steps))];
+
+// Lot-specific view of a load line. Lines without a stage keep their catalog values.
+export function applyMaturity(vegetable: Vegetable): Vegetable {
+  if (!vegetable.maturity) return vegetable;
+  const stage = MATURITY_STAGES[vegetable.maturity];
+  return {
+    ...vegetable,
+    ethyleneProduction: shiftLevel(vegetable.ethyleneProduction, stage.productionShift),
+    ethyleneSensitivity: shiftLevel(vegetable.ethyleneSensitivity, stage.sensitivityShift),
+    shelfLife: Math.max(1, Math.round(vegetable.shelfLife * stage.shelfLifeFactor)),
+  };
+}
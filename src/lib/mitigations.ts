@@ -0,0 +1,90 @@
+export type MitigationId =
+  | 'separate_truck'
+  | 'separate_compartment'
+  | 'one_mcp'
+  | 'ethylene_absorber'
+  | 'liner_bags';
+
+// Planner choices that answer a compatibility finding. Cost ranks options with the same effect.
+export const MITIGATIONS: Record<MitigationId, { label: string; description: string; cost: number; separates: boolean }> = {
+  separate_truck: {
+    label: 'Separate truck',
+    description: 'Ship one side of the pair on another truck.',
+    cost: 3,
+    separates: true,
+  },
+  separate_compartment: {
+    label: 'Separate compartment',
+    description: 'Load the pair in different zones behind a partition or bulkhead.',
+    cost: 2,
+    separates: true,
+  },
+  one_mcp: {
+    label: '1-MCP treatment',
+    description: 'Treat the sensitive lot with 1-methylcyclopropene before loading to block ethylene action.',
+    cost: 2,
+    separates: false,
+  },
+  ethylene_absorber: {
+    label: 'Ethylene absorber sachets',
+    description: 'Place potassium permanganate sachets among the cartons to strip ethylene from the air.',
+    cost: 1,
+    separates: false,
+  },
+  liner_bags: {
+    label: 'Liner bags',
+    description: 'Pack one side in perforated polyethylene liners to hold moisture and limit gas and odor exchange.',
+    cost: 1,
+    separates: false,
+  },
+};
+
+// Applied mitigations are stored per finding: one rule on one pair of load lines
+export const findingKey = (ruleId: string, idA: string, idB: string) =>
+  [ruleId, ...[idA, idB].sort()].join(':');
+
+export type TreatmentId = 'ethylene_scrubber' | 'absorber_sachets' | 'top_icing' | 'map' | 'one_mcp';
+
+export type TreatmentScope = 'load' | 'zone' | 'line';
+
+// Equipment and treatments set up for the trip, as opposed to fixes chosen per finding
+export const TREATMENTS: Record<TreatmentId, { label: string; description: string; scopes: TreatmentScope[] }> = {
+  ethylene_scrubber: {
+    label: 'Ethylene scrubber',
+    description: 'Catalytic or photocatalytic unit that removes ethylene from the circulating air.',
+    scopes: ['load', 'zone'],
+  },
+  absorber_sachets: {
+    label: 'Absorber sachets',
+    description: 'Potassium permanganate sachets packed with the cartons.',
+    scopes: ['load', 'zone', 'line'],
+  },
+  top_icing: {
+    label: 'Top-icing',
+    description: 'Crushed ice over the cartons keeps the produce near 0°C and saturated.',
+    scopes: ['zone', 'line'],
+  },
+  map: {
+    label: 'MAP bags',
+    description: 'Modified-atmosphere packaging holds humidity and limits gas and odor exchange.',
+    scopes: ['zone', 'line'],
+  },
+  one_mcp: {
+    label: '1-MCP',
+    description: 'Pre-load 1-methylcyclopropene treatment that blocks ethylene action.',
+    scopes: ['zone', 'line'],
+  },
+};
+
+// Ice keeps a top-iced lot this many degrees below the cargo air
+export const TOP_ICING_ALLOWANCE_C = 8;
+
+export interface TreatmentAssignment {
+  id: string;
+  treatment: TreatmentId;
+  scope: TreatmentScope;
+  target?: string; // line id for 'line', 1-based zone number for 'zone'
+}
+
+// Treatments that reach each load line, by line id
+export type LineTreatments = Record<string, TreatmentId[]>;
@@ -0,0 +1,133 @@
+import { z } from 'zod';
+import type { ConflictType, Severity } from '@/lib/compatibilityRules';
+
+type Level = 'low' | 'medium' | 'high';
+
+// Cut-offs the rules use to decide whether a pair conflicts and how badly
+export interface RuleThresholds {
+  ethyleneProduction: Level; // producers at or above this level count
+  ethyleneSensitivity: Level; // and sensitive items at or above this one
+  temperatureToleranceC: number; // gap between ideal ranges that is still accepted
+  humidityToleranceRh: number; // humidity gap that is still accepted, % RH points
+  humidityMediumGapRh: number; // gaps from here up are medium severity
+}
+
+export interface RulePolicy {
+  enabled: boolean;
+  severity?: Severity; // replaces the rule's own severity, before treatments and mitigations
+  blockFrom: Severity | 'never'; // open findings at or above this block the load; lower ones only warn
+}
+
+// A buyer's or organization's tolerances, selected per scenario
+export interface PolicyProfile {
+  id: string;
+  name: string;
+  description: string;
+  rules: Record<ConflictType, RulePolicy>;
+  thresholds: RuleThresholds;
+}
+
+export const CONFLICT_TYPES: ConflictType[] = ['ethylene', 'temperature', 'humidity', 'odor'];
+
+export const DEFAULT_RULE_THRESHOLDS: RuleThresholds = {
+  ethyleneProduction: 'high',
+  ethyleneSensitivity: 'high',
+  temperatureToleranceC: 0,
+  humidityToleranceRh: 0,
+  humidityMediumGapRh: 15,
+};
+
+const everyRule = (policy: RulePolicy): Record<ConflictType, RulePolicy> =>
+  Object.fromEntries(CONFLICT_TYPES.map((type) => [type, { ...policy }])) as Record<ConflictType, RulePolicy>;
+
+export const DEFAULT_POLICY_ID = 'standard';
+
+export const BUILT_IN_POLICIES: Record<string, PolicyProfile> = {
+  standard: {
+    id: 'standard',
+    name: 'Standard',
+    description: 'High-severity conflicts block the load; everything else is a warning.',
+    rules: everyRule({ enabled: true, blockFrom: 'high' }),
+    thresholds: { ...DEFAULT_RULE_THRESHOLDS },
+  },
+  supermarket_dc: {
+    id: 'supermarket_dc',
+    name: 'Supermarket DC',
+    description: 'Rejects any ethylene mixing and blocks medium-severity conflicts of every kind.',
+    rules: {
+      ...everyRule({ enabled: true, blockFrom: 'medium' }),
+      ethylene: { enabled: true, severity: 'high', blockFrom: 'low' },
+    },
+    thresholds: { ...DEFAULT_RULE_THRESHOLDS, ethyleneProduction: 'medium', ethyleneSensitivity: 'medium' },
+  },
+  wet_market: {
+    id: 'wet_market',
+    name: 'Wet-market trader',
+    description: 'Accepts medium risk and small temperature and humidity gaps; only high severity blocks.',
+    rules: everyRule({ enabled: true, blockFrom: 'high' }),
+    thresholds: { ...DEFAULT_RULE_THRESHOLDS, temperatureToleranceC: 2, humidityToleranceRh: 5, humidityMediumGapRh: 20 },
+  },
+};
+
+export const isBuiltInPolicy = (id: string) => Object.prototype.hasOwnProperty.call(BUILT_IN_POLICIES, id);
+
+const level = z.enum(['low', 'medium', 'high']);
+
+const rulePolicySchema = z.object({
+  enabled: z.boolean(),
+  // Blank select values mean "use the rule's own severity"
+  severity: z.preprocess((value) => (value === '' ? undefined : value), level.optional()),
+  blockFrom: z.enum(['low', 'medium', 'high', 'never']),
+});
+
+export const policyProfileSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1, 'Name is required').max(40, 'Keep the name under 40 characters'),
+  description: z.string().trim().max(160, 'Keep the description under 160 characters').default(''),
+  rules: z.object({
+    ethylene: rulePolicySchema,
+    temperature: rulePolicySchema,
+    humidity: rulePolicySchema,
+    odor: rulePolicySchema,
+  }),
+  thresholds: z
+    .object({
+      ethyleneProduction: level,
+      ethyleneSensitivity: level,
+      temperatureToleranceC: z.coerce.number().min(0, 'Must be 0 or more').max(10, 'At most 10°C'),
+      humidityToleranceRh: z.coerce.number().min(0, 'Must be 0 or more').max(30, 'At most 30 pts'),
+      humidityMediumGapRh: z.coerce.number().min(1, 'At least 1 pt').max(50, 'At most 50 pts'),
+    })
+    .refine((t) => t.humidityMediumGapRh > t.humidityToleranceRh, {
+      message: 'Must be above the accepted gap',
+      path: ['humidityMediumGapRh'],
+    }),
+});
+
+export const POLICY_STORAGE_KEY = 'shelflife:policies';
+
+// Read user profiles from localStorage, dropping anything that no longer validates
+export function loadCustomPolicies(): Record<string, PolicyProfile> {
+  try {
+    const saved = localStorage.getItem(POLICY_STORAGE_KEY);
+    if (!saved) return {};
+    const parsed = JSON.parse(saved);
+    if (!parsed || typeof parsed !== 'object') return {};
+    const profiles: Record<string, PolicyProfile> = {};
+    Object.values(parsed).forEach((value) => {
+      const result = policyProfileSchema.safeParse(value);
+      if (result.success) profiles[result.data.id] = result.data as PolicyProfile;
+    });
+    return profiles;
+  } catch (e) {
+    return {};
+  }
+}
+
+export function saveCustomPolicies(profiles: Record<string, PolicyProfile>) {
+  try {
+    localStorage.setItem(POLICY_STORAGE_KEY, JSON.stringify(profiles));
+  } catch (e) {
+    // ignore storage errors
+  }
+}
@@ -0,0 +1,165 @@
+import { z } from 'zod';
+import type { Vegetable } from '@/components/VegetableInput';
+import { parseAliases } from '@/lib/produceSearch';
+
+// A catalog entry is a load line without its per-load fields.
+export type ProduceDefinition = Omit<Vegetable, 'id' | 'quantity'>;
+
+export type ProduceCatalog = Record<string, ProduceDefinition>;
+
+// Built-in reference data shipped with the app. User entries with the same name override these.
+export const VEGETABLE_DATABASE: ProduceCatalog = {
+  'Carrots': { name: 'Carrots', ethyleneProduction: 'low', ethyleneSensitivity: 'medium', idealTemp: { min: 0, max: 2 }, idealHumidity: { min: 98, max: 100 }, freezingPoint: -1.4, odorAbsorber: true, bulkDensity: 550, atmosphere: { o2: { min: 5, max: 21 }, co2: { min: 0, max: 4 }, co2Injury: 'bitterness and off-flavor' }, aliases: { fil: ['karot'], ilo: ['karot'], ceb: ['karot'] }, pricePerKg: 70, shelfLife: 21 },
+  'Cabbage': { name: 'Cabbage', ethyleneProduction: 'low', ethyleneSensitivity: 'medium', idealTemp: { min: 0, max: 2 }, idealHumidity: { min: 98, max: 100 }, freezingPoint: -0.9, odorAbsorber: true, bulkDensity: 350, atmosphere: { o2: { min: 3, max: 5 }, co2: { min: 3, max: 6 }, co2Injury: 'internal discoloration' }, aliases: { fil: ['repolyo'], ilo: ['repolyo'], ceb: ['repolyo'] }, pricePerKg: 50, shelfLife: 20 },
+  'Broccoli': { name: 'Broccoli', ethyleneProduction: 'low', ethyleneSensitivity: 'high', idealTemp: { min: 0, max: 2 }, idealHumidity: { min: 95, max: 100 }, freezingPoint: -0.6, bulkDensity: 250, atmosphere: { o2: { min: 1, max: 2 }, co2: { min: 5, max: 10 }, co2Injury: 'off-odors and yellowing' }, aliases: { fil: ['brokoli'] }, pricePerKg: 160, shelfLife: 7 },
+  'Cauliflower': { name: 'Cauliflower', ethyleneProduction: 'low', ethyleneSensitivity: 'high', idealTemp: { min: 0, max: 2 }, idealHumidity: { min: 95, max: 98 }, freezingPoint: -0.8, bulkDensity: 300, atmosphere: { o2: { min: 2, max: 5 }, co2: { min: 2, max: 5 }, co2Injury: 'gray curd discoloration' }, aliases: { fil: ['koliplor'], ceb: ['kolipulor'] }, pricePerKg: 120, shelfLife: 10 },
+  'Lettuce': { name: 'Lettuce', ethyleneProduction: 'low', ethyleneSensitivity: 'high', idealTemp: { min: 0, max: 2 }, idealHumidity: { min: 98, max: 100 }, freezingPoint: -0.2, odorAbsorber: true, bulkDensity: 150, atmosphere: { o2: { min: 1, max: 3 }, co2: { min: 0, max: 2 }, co2Injury: 'brown stain' }, aliases: { fil: ['litsugas'], ilo: ['letsugas'], ceb: ['letsugas'] }, pricePerKg: 150, shelfLife: 10 },
+  'Celery': { name: 'Celery', ethyleneProduction: 'low', ethyleneSensitivity: 'high', idealTemp: { min: 0, max: 2 }, idealHumidity: { min: 98, max: 100 }, freezingPoint: -0.5, odorAbsorber: true, bulkDensity: 300, atmosphere: { o2: { min: 1, max: 4 }, co2: { min: 3, max: 5 }, co2Injury: 'internal browning' }, aliases: { fil: ['kintsay'], ilo: ['kinchay'], ceb: ['kinchay'] }, pricePerKg: 120, shelfLife: 14 },
+  'Chinese cabbage': { name: 'Chinese cabbage', ethyleneProduction: 'low', ethyleneSensitivity: 'medium', idealTemp: { min: 0, max: 2 }, idealHumidity: { min: 95, max: 100 }, freezingPoint: -0.9, odorAbsorber: true, bulkDensity: 300, atmosphere: { o2: { min: 1, max: 2 }, co2: { min: 0, max: 5 }, co2Injury: 'internal browning' }, aliases: { en: ['napa cabbage', 'wombok'], fil: ['petsay baguio', 'wongbok'], ceb: ['petsay baguio'] }, pricePerKg: 50, shelfLife: 14 },
+  'Eggplant': { name: 'Eggplant', ethyleneProduction: 'low', ethyleneSensitivity: 'high', idealTemp: { min: 10, max: 12 }, idealHumidity: { min: 90, max: 95 }, chillingThreshold: 10, freezingPoint: -0.8, bulkDensity: 350, atmosphere: { o2: { min: 3, max: 5 }, co2: { min: 0, max: 5 }, co2Injury: 'surface scald' }, aliases: { en: ['aubergine', 'brinjal'], fil: ['talong'], ilo: ['tarong'], ceb: ['talong'] }, pricePerKg: 70, shelfLife: 7 },
+  'Tomatoes': { name: 'Tomatoes', ethyleneProduction: 'high', ethyleneSensitivity: 'medium', idealTemp: { min: 12, max: 15 }, idealHumidity: { min: 90, max: 95 }, chillingThreshold: 10, freezingPoint: -0.5, bulkDensity: 550, unitWeightsKg: { crate: 25, kaing: 30 }, atmosphere: { o2: { min: 3, max: 5 }, co2: { min: 2, max: 3 }, co2Injury: 'uneven ripening and off-flavor' }, aliases: { en: ['tomato'], fil: ['kamatis'], ilo: ['kamatis'], ceb: ['kamatis'] }, pricePerKg: 60, shelfLife: 7 },
+  'Okra': { name: 'Okra', ethyleneProduction: 'low', ethyleneSensitivity: 'high', idealTemp: { min: 7, max: 10 }, idealHumidity: { min: 90, max: 95 }, chillingThreshold: 7, freezingPoint: -1.8, bulkDensity: 350, atmosphere: { o2: { min: 3, max: 5 }, co2: { min: 4, max: 10 } }, aliases: { en: ["lady's finger", 'gumbo'], fil: ['okra'], ilo: ['okra'], ceb: ['okra'] }, pricePerKg: 60, shelfLife: 5 },
+  'Ampalaya': { name: 'Ampalaya', ethyleneProduction: 'low', ethyleneSensitivity: 'medium', idealTemp: { min: 10, max: 12 }, idealHumidity: { min: 85, max: 95 }, chillingThreshold: 10, freezingPoint: -0.5, bulkDensity: 350, atmosphere: { o2: { min: 2, max: 5 }, co2: { min: 2, max: 5 } }, aliases: { en: ['bitter gourd', 'bitter melon'], fil: ['ampalaya'], ilo: ['parya'], ceb: ['paliya', 'amargoso'] }, pricePerKg: 90, shelfLife: 5 },
+  'Sitaw': { name: 'Sitaw', ethyleneProduction: 'low', ethyleneSensitivity: 'high', idealTemp: { min: 7, max: 10 }, idealHumidity: { min: 90, max: 95 }, chillingThreshold: 7, freezingPoint: -0.7, bulkDensity: 300, atmosphere: { o2: { min: 2, max: 3 }, co2: { min: 4, max: 7 }, co2Injury: 'off-flavor' }, aliases: { en: ['string beans', 'yardlong bean', 'long bean'], fil: ['sitaw'], ilo: ['utong'], ceb: ['batong'] }, pricePerKg: 80, shelfLife: 5 },
+  'Patola': { name: 'Patola', ethyleneProduction: 'low', ethyleneSensitivity: 'medium', idealTemp: { min: 10, max: 12 }, idealHumidity: { min: 90, max: 95 }, chillingThreshold: 10, freezingPoint: -0.5, bulkDensity: 350, aliases: { en: ['sponge gourd', 'ridged gourd', 'luffa'], fil: ['patola'], ilo: ['kabatiti'], ceb: ['patola'] }, pricePerKg: 60, shelfLife: 7 },
+  'Kalabasa': { name: 'Kalabasa', ethyleneProduction: 'low', ethyleneSensitivity: 'low', idealTemp: { min: 10, max: 12 }, idealHumidity: { min: 50, max: 70 }, chillingThreshold: 10, freezingPoint: -0.8, bulkDensity: 500, aliases: { en: ['squash', 'pumpkin'], fil: ['kalabasa'], ilo: ['karabasa'], ceb: ['kalabasa'] }, pricePerKg: 35, shelfLife: 30 },
+  'Pechay': { name: 'Pechay', ethyleneProduction: 'low', ethyleneSensitivity: 'medium', idealTemp: { min: 0, max: 2 }, idealHumidity: { min: 95, max: 100 }, freezingPoint: -0.5, odorAbsorber: true, bulkDensity: 200, atmosphere: { o2: { min: 1, max: 2 }, co2: { min: 0, max: 5 }, co2Injury: 'internal browning' }, aliases: { en: ['bok choy', 'pak choi'], fil: ['petsay'], ilo: ['petsay'], ceb: ['petsay'] }, pricePerKg: 60, shelfLife: 7 },
+  'Potatoes': { name: 'Potatoes', ethyleneProduction: 'low', ethyleneSensitivity: 'low', idealTemp: { min: 4, max: 8 }, idealHumidity: { min: 90, max: 95 }, chillingThreshold: 4, freezingPoint: -0.8, bulkDensity: 650, unitWeightsKg: { sack: 50 }, aliases: { en: ['potato'], fil: ['patatas'], ilo: ['patatas'], ceb: ['patatas'] }, pricePerKg: 80, shelfLife: 60 },
+  'Onions': { name: 'Onions', ethyleneProduction: 'low', ethyleneSensitivity: 'low', idealTemp: { min: 0, max: 4 }, idealHumidity: { min: 65, max: 70 }, freezingPoint: -0.8, odorEmitter: true, bulkDensity: 600, unitWeightsKg: { sack: 25 }, atmosphere: { o2: { min: 1, max: 3 }, co2: { min: 5, max: 10 } }, aliases: { en: ['onion'], fil: ['sibuyas'], ilo: ['lasona'], ceb: ['sibuyas'] }, pricePerKg: 120, shelfLife: 90 },
+  'Peppers': { name: 'Peppers', ethyleneProduction: 'low', ethyleneSensitivity: 'medium', idealTemp: { min: 7, max: 10 }, idealHumidity: { min: 90, max: 95 }, chillingThreshold: 7, freezingPoint: -0.7, bulkDensity: 250, atmosphere: { o2: { min: 3, max: 5 }, co2: { min: 0, max: 5 }, co2Injury: 'calyx and seed browning' }, aliases: { en: ['bell pepper', 'capsicum', 'sweet pepper'], fil: ['atsal', 'sili'], ilo: ['sili'], ceb: ['atsal'] }, pricePerKg: 140, shelfLife: 14 },
+  'Garlic': { name: 'Garlic', ethyleneProduction: 'low', ethyleneSensitivity: 'low', idealTemp: { min: 0, max: 2 }, idealHumidity: { min: 60, max: 70 }, freezingPoint: -2.0, odorEmitter: true, bulkDensity: 450, unitWeightsKg: { sack: 25 }, atmosphere: { o2: { min: 1, max: 2 }, co2: { min: 5, max: 10 } }, aliases: { fil: ['bawang'], ilo: ['bawang'], ceb: ['ahos'] }, pricePerKg: 150, shelfLife: 150 },
+  'Ginger': { name: 'Ginger', ethyleneProduction: 'low', ethyleneSensitivity: 'low', idealTemp: { min: 12, max: 14 }, idealHumidity: { min: 65, max: 75 }, chillingThreshold: 12, freezingPoint: -0.8, odorEmitter: true, bulkDensity: 500, unitWeightsKg: { sack: 30 }, aliases: { fil: ['luya'], ilo: ['laya'], ceb: ['luy-a'] }, pricePerKg: 120, shelfLife: 90 },
+};
+
+// Case-insensitive so spreadsheet values like "High" import cleanly
+const ethyleneLevel = z.preprocess(
+  (value) => (typeof value === 'string' ? value.trim().toLowerCase() : value),
+  z.enum(['low', 'medium', 'high'])
+);
+
+// Fallback for entries saved before humidity was tracked
+export const DEFAULT_HUMIDITY = { min: 85, max: 95 };
+
+export const getHumidityRange = (item: Pick<ProduceDefinition, 'idealHumidity'>) => item.idealHumidity ?? DEFAULT_HUMIDITY;
+
+// Fallback for entries saved before freezing points were tracked; most produce freezes just below 0°C
+export const DEFAULT_FREEZING_POINT = -0.5;
+
+export const getFreezingPoint = (item: Pick<ProduceDefinition, 'freezingPoint'>) => item.freezingPoint ?? DEFAULT_FREEZING_POINT;
+
+// Fallback market value for entries without a price
+export const DEFAULT_PRICE_PER_KG = 100;
+
+export const getPricePerKg = (item: Pick<ProduceDefinition, 'pricePerKg'>) => item.pricePerKg ?? DEFAULT_PRICE_PER_KG;
+
+export const formatPeso = (value: number) => `₱${Math.round(value).toLocaleString()}`;
+
+// Blank form fields and CSV cells mean "not set" rather than 0
+const optionalNumber = (schema: z.ZodNumber) =>
+  z.preprocess((value) => (value === '' || value === null ? undefined : value), z.coerce.number().pipe(schema).optional());
+
+const unitWeight = optionalNumber(z.number().positive('Must be above 0 kg').max(2000, 'At most 2000 kg'));
+
+// Accepts either a list or the comma-separated text used by the form and CSV files
+const aliasList = z.preprocess(
+  (value) => (typeof value === 'string' ? parseAliases(value) : value),
+  z.array(z.string().trim().min(1).max(40, 'Keep each alias under 40 characters')).max(10, 'At most 10 aliases').optional()
+);
+
+// Checkbox values from the form and yes/no or true/false cells from CSV files
+const optionalFlag = z.preprocess((value) => {
+  if (typeof value !== 'string') return value;
+  const text = value.trim().toLowerCase();
+  if (text === '') return undefined;
+  return ['true', 'yes', 'y', '1'].includes(text) ? true : ['false', 'no', 'n', '0'].includes(text) ? false : value;
+}, z.boolean({ invalid_type_error: 'Use yes or no' }).optional());
+
+const gasRange = (limit: number) =>
+  z
+    .object({
+      min: z.coerce.number().min(0, 'Must be at least 0%').max(limit, `Must be at most ${limit}%`),
+      max: z.coerce.number().min(0, 'Must be at least 0%').max(limit, `Must be at most ${limit}%`),
+    })
+    .refine((g) => g.min <= g.max, { message: 'Max must not be below min', path: ['max'] });
+
+// Blank gas fields mean the produce has no CA/MAP data; it then rides in normal air
+const atmosphere = z.preprocess(
+  (value) => {
+    if (!value || typeof value !== 'object') return value;
+    const { o2, co2 } = value as { o2?: { min?: unknown; max?: unknown }; co2?: { min?: unknown; max?: unknown } };
+    const bounds = [o2?.min, o2?.max, co2?.min, co2?.max];
+    return bounds.every((b) => b === undefined || b === null || b === '') ? undefined : value;
+  },
+  z
+    .object({
+      o2: gasRange(21),
+      co2: gasRange(30),
+      co2Injury: z.preprocess((value) => (value === '' ? undefined : value), z.string().trim().max(60, 'Keep it under 60 characters').optional()),
+    })
+    .optional()
+);
+
+export const produceDefinitionSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(60, 'Keep the name under 60 characters'),
+  ethyleneProduction: ethyleneLevel,
+  ethyleneSensitivity: ethyleneLevel,
+  ethyleneRate: optionalNumber(z.number().min(0, 'Must be 0 or more').max(500, 'At most 500 µL/kg·h')),
+  ethyleneThresholdPpm: optionalNumber(z.number().positive('Must be above 0 ppm').max(1000, 'At most 1000 ppm')),
+  idealTemp: z
+    .object({
+      min: z.coerce.number().min(-5, 'Must be at least -5°C').max(30, 'Must be at most 30°C'),
+      max: z.coerce.number().min(-5, 'Must be at least -5°C').max(30, 'Must be at most 30°C'),
+    })
+    .refine((t) => t.min <= t.max, { message: 'Max must not be below min', path: ['max'] }),
+  idealHumidity: z
+    .object({
+      min: z.coerce.number().min(0, 'Must be at least 0%').max(100, 'Must be at most 100%'),
+      max: z.coerce.number().min(0, 'Must be at least 0%').max(100, 'Must be at most 100%'),
+    })
+    .refine((h) => h.min <= h.max, { message: 'Max must not be below min', path: ['max'] })
+    .default(DEFAULT_HUMIDITY),
+  chillingThreshold: optionalNumber(z.number().min(-5, 'Must be at least -5°C').max(20, 'Must be at most 20°C')),
+  freezingPoint: optionalNumber(z.number().min(-5, 'Must be at least -5°C').max(5, 'Must be at most 5°C')),
+  odorEmitter: optionalFlag,
+  odorAbsorber: optionalFlag,
+  bulkDensity: optionalNumber(z.number().min(50, 'At least 50 kg/m³').max(1200, 'At most 1200 kg/m³')),
+  unitWeightsKg: z
+    .object({ kaing: unitWeight, crate: unitWeight, sack: unitWeight, pallet: unitWeight })
+    .optional(),
+  atmosphere,
+  pricePerKg: optionalNumber(z.number().min(0, 'Must be 0 or more').max(10000, 'At most ₱10,000 per kg')),
+  aliases: z
+    .object({ en: aliasList, fil: aliasList, ilo: aliasList, ceb: aliasList })
+    .optional(),
+  shelfLife: z.coerce.number().int('Whole days only').min(1, 'At least 1 day').max(365, 'At most 365 days'),
+});
+
+export const CATALOG_STORAGE_KEY = 'shelflife:catalog';
+
+export const isBuiltInProduce = (name: string) => Object.prototype.hasOwnProperty.call(VEGETABLE_DATABASE, name);
+
+// Read user entries from localStorage, dropping anything that no longer validates
+export function loadCustomProduce(): ProduceCatalog {
+  try {
+    const saved = localStorage.getItem(CATALOG_STORAGE_KEY);
+    if (!saved) return {};
+    const parsed = JSON.parse(saved);
+    if (!parsed || typeof parsed !== 'object') return {};
+    const entries: ProduceCatalog = {};
+    Object.values(parsed).forEach((value) => {
+      const result = produceDefinitionSchema.safeParse(value);
+      if (result.success) entries[result.data.name] = result.data as ProduceDefinition;
+    });
+    return entries;
+  } catch (e) {
+    return {};
+  }
+}
+
+export function saveCustomProduce(entries: ProduceCatalog) {
+  try {
+    localStorage.setItem(CATALOG_STORAGE_KEY, JSON.stringify(entries));
+  } catch (e) {
+    // ignore storage errors
+  }
+}
@@ -0,0 +1,211 @@
+import { ProduceCatalog, ProduceDefinition, produceDefinitionSchema } from '@/lib/produceCatalog';
+
+export type CatalogFileFormat = 'csv' | 'json';
+
+export type ConflictResolution = 'keep' | 'overwrite' | 'rename';
+
+export interface ImportRow {
+  row: number; // 1-based data row (CSV line after the header, or JSON array index + 1)
+  name: string;
+  definition?: ProduceDefinition;
+  errors: string[];
+  conflict: boolean; // name already exists in the catalog or earlier in the file
+}
+
+export interface ImportReport {
+  rows: ImportRow[];
+  errors: string[]; // file-level problems (unreadable JSON, missing headers)
+}
+
+// Flat column layout shared by CSV export and import. Paths map into the nested definition.
+const CSV_COLUMNS: { header: string; path: string[] }[] = [
+  { header: 'name', path: ['name'] },
+  { header: 'ethyleneProduction', path: ['ethyleneProduction'] },
+  { header: 'ethyleneSensitivity', path: ['ethyleneSensitivity'] },
+  { header: 'ethyleneRate', path: ['ethyleneRate'] },
+  { header: 'ethyleneThresholdPpm', path: ['ethyleneThresholdPpm'] },
+  { header: 'idealTempMin', path: ['idealTemp', 'min'] },
+  { header: 'idealTempMax', path: ['idealTemp', 'max'] },
+  { header: 'idealHumidityMin', path: ['idealHumidity', 'min'] },
+  { header: 'idealHumidityMax', path: ['idealHumidity', 'max'] },
+  { header: 'chillingThreshold', path: ['chillingThreshold'] },
+  { header: 'freezingPoint', path: ['freezingPoint'] },
+  { header: 'odorEmitter', path: ['odorEmitter'] },
+  { header: 'odorAbsorber', path: ['odorAbsorber'] },
+  { header: 'bulkDensity', path: ['bulkDensity'] },
+  { header: 'kgPerKaing', path: ['unitWeightsKg', 'kaing'] },
+  { header: 'kgPerCrate', path: ['unitWeightsKg', 'crate'] },
+  { header: 'kgPerSack', path: ['unitWeightsKg', 'sack'] },
+  { header: 'kgPerPallet', path: ['unitWeightsKg', 'pallet'] },
+  { header: 'o2Min', path: ['atmosphere', 'o2', 'min'] },
+  { header: 'o2Max', path: ['atmosphere', 'o2', 'max'] },
+  { header: 'co2Min', path: ['atmosphere', 'co2', 'min'] },
+  { header: 'co2Max', path: ['atmosphere', 'co2', 'max'] },
+  { header: 'co2Injury', path: ['atmosphere', 'co2Injury'] },
+  { header: 'pricePerKg', path: ['pricePerKg'] },
+  { header: 'aliasesEn', path: ['aliases', 'en'] },
+  { header: 'aliasesFil', path: ['aliases', 'fil'] },
+  { header: 'aliasesIlo', path: ['aliases', 'ilo'] },
+  { header: 'aliasesCeb', path: ['aliases', 'ceb'] },
+  { header: 'shelfLife', path: ['shelfLife'] },
+];
+
+export const CATALOG_CSV_HEADERS = CSV_COLUMNS.map((c) => c.header);
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const escapeCsvField = (field: string) => (/[",\n]/.test(field) ? '"' + field.replace(/"/g, '""') + '"' : field);
+
+export function inferCatalogFormat(fileName: string, text: string): CatalogFileFormat {
+  if (/\.json$/i.test(fileName)) return 'json';
+  if (/\.csv$/i.test(fileName)) return 'csv';
+  return /^\s*[[{]/.test(text) ? 'json' : 'csv';
+}
+
+export function serializeCatalogCSV(entries: ProduceDefinition[]): string {
+  const rows = entries.map((entry) =>
+    CSV_COLUMNS.map(({ path }) => {
+      const value = path.reduce<unknown>((acc, key) => (acc as Record<string, unknown>)?.[key], entry);
+      if (Array.isArray(value)) return value.join('; ');
+      return value === undefined || value === null ? '' : String(value);
+    })
+  );
+  return [CATALOG_CSV_HEADERS, ...rows].map((r) => r.map(escapeCsvField).join(',')).join('\n');
+}
+
+export function serializeCatalogJSON(entries: ProduceDefinition[]): string {
+  return JSON.stringify({ format: 'shelflife-catalog', version: 1, produce: entries }, null, 2);
+}
+
+// Minimal RFC 4180 reader: quoted fields, escaped quotes, CRLF or LF line endings
+function parseCsvRecords(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      record.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records.filter((r) => r.some((f) => f.trim() !== ''));
+}
+
+function csvToObjects(text: string): { items: unknown[]; errors: string[] } {
+  const [header, ...records] = parseCsvRecords(text.replace(/^\uFEFF/, ''));
+  if (!header) return { items: [], errors: ['The file is empty.'] };
+
+  const columnByHeader = new Map(CSV_COLUMNS.map((c) => [normalizeHeader(c.header), c]));
+  const columns = header.map((h) => columnByHeader.get(normalizeHeader(h)));
+  const missing = CSV_COLUMNS.filter((c) => !columns.includes(c)).map((c) => c.header);
+  if (missing.includes('name')) return { items: [], errors: [`Missing required column: name. Expected headers: ${CATALOG_CSV_HEADERS.join(', ')}`] };
+
+  const items = records.map((record) => {
+    const item: Record<string, unknown> = {};
+    columns.forEach((column, index) => {
+      const value = record[index]?.trim();
+      if (!column || value === undefined || value === '') return;
+      let target = item;
+      column.path.slice(0, -1).forEach((key) => {
+        target[key] = (target[key] as Record<string, unknown>) ?? {};
+        target = target[key] as Record<string, unknown>;
+      });
+      target[column.path[column.path.length - 1]] = value;
+    });
+    return item;
+  });
+  return { items, errors: missing.length ? [`Missing columns: ${missing.join(', ')}`] : [] };
+}
+
+function jsonToObjects(text: string): { items: unknown[]; errors: string[] } {
+  try {
+    const parsed = JSON.parse(text);
+    // Accept our own export wrapper, a bare array, or a name-keyed record
+    if (Array.isArray(parsed)) return { items: parsed, errors: [] };
+    if (parsed && Array.isArray(parsed.produce)) return { items: parsed.produce, errors: [] };
+    if (parsed && typeof parsed === 'object') return { items: Object.values(parsed), errors: [] };
+    return { items: [], errors: ['Expected an array of produce definitions.'] };
+  } catch (e) {
+    return { items: [], errors: ['The file is not valid JSON.'] };
+  }
+}
+
+// Validate every row and flag names that would collide with the existing catalog
+export function parseCatalogImport(text: string, format: CatalogFileFormat, catalog: ProduceCatalog): ImportReport {
+  const { items, errors } = format === 'json' ? jsonToObjects(text) : csvToObjects(text);
+  const seen = new Set<string>();
+
+  const rows = items.map((item, index) => {
+    const rawName = item && typeof item === 'object' ? (item as Record<string, unknown>).name : undefined;
+    const name = typeof rawName === 'string' ? rawName.trim() : '';
+    const result = produceDefinitionSchema.safeParse(item);
+    if (!result.success) {
+      return {
+        row: index + 1,
+        name,
+        errors: result.error.issues.map((issue) => `${issue.path.join('.') || 'row'}: ${issue.message}`),
+        conflict: false,
+      };
+    }
+    const definition = result.data as ProduceDefinition;
+    const conflict = Boolean(catalog[definition.name]) || seen.has(definition.name);
+    seen.add(definition.name);
+    return { row: index + 1, name: definition.name, definition, errors: [], conflict };
+  });
+
+  if (items.length === 0 && errors.length === 0) errors.push('No produce rows found.');
+  return { rows, errors };
+}
+
+const uniqueName = (name: string, taken: Set<string>) => {
+  let n = 2;
+  while (taken.has(`${name} (${n})`)) n++;
+  return `${name} (${n})`;
+};
+
+// Turn a validated report plus per-row conflict choices into the entries to save
+export function resolveCatalogImport(
+  report: ImportReport,
+  resolutions: Record<number, ConflictResolution>,
+  catalog: ProduceCatalog
+): ProduceDefinition[] {
+  const taken = new Set(Object.keys(catalog));
+  const accepted = new Map<string, ProduceDefinition>();
+
+  report.rows.forEach((row) => {
+    if (!row.definition) return;
+    const resolution = row.conflict ? resolutions[row.row] ?? 'keep' : 'overwrite';
+    if (resolution === 'keep') return;
+    const name = resolution === 'rename' ? uniqueName(row.definition.name, taken) : row.definition.name;
+    taken.add(name);
+    accepted.set(name, { ...row.definition, name });
+  });
+
+  return Array.from(accepted.values());
+}
@@ -0,0 +1,104 @@
+import type { ProduceCatalog, ProduceDefinition } from '@/lib/produceCatalog';
+
+export type AliasLanguage = 'en' | 'fil' | 'ilo' | 'ceb';
+
+export const ALIAS_LANGUAGES: Record<AliasLanguage, string> = {
+  en: 'English',
+  fil: 'Filipino',
+  ilo: 'Ilocano',
+  ceb: 'Cebuano',
+};
+
+export interface ProduceMatch {
+  entry: ProduceDefinition;
+  score: number; // higher is better
+  matchedAlias?: { language: AliasLanguage; alias: string }; // set when an alias matched better than the name
+}
+
+// Lowercase, strip accents and punctuation so "Pétsay" and "petsay" compare equal
+const normalize = (text: string) =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9 ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Optimal string alignment distance, capped for speed
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  const prev2: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(prev[j] + 1, current[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], prev2[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    prev2.splice(0, prev2.length, ...prev);
+    prev = current;
+  }
+  return prev[b.length];
+}
+
+const isSubsequence = (query: string, text: string) => {
+  let i = 0;
+  for (const ch of text) if (ch === query[i]) i++;
+  return i === query.length;
+};
+
+// Score one candidate string: exact > prefix > word prefix > substring > typo-tolerant > subsequence
+export function scoreText(query: string, text: string): number {
+  const q = normalize(query);
+  const t = normalize(text);
+  if (!q) return 1;
+  if (t === q) return 100;
+  if (t.startsWith(q)) return 90 - Math.min(10, t.length - q.length);
+  const words = t.split(' ');
+  if (words.some((w) => w.startsWith(q))) return 75;
+  if (t.includes(q)) return 60;
+  // Allow one typo for short queries, two for longer ones, against each word or the word's prefix
+  const allowed = q.length <= 4 ? 1 : 2;
+  const typo = Math.min(
+    ...words.map((w) => Math.min(editDistance(q, w, allowed), editDistance(q, w.slice(0, q.length), allowed)))
+  );
+  if (typo <= allowed) return 50 - typo * 10;
+  if (q.length >= 3 && isSubsequence(q.replace(/ /g, ''), t.replace(/ /g, ''))) return 20;
+  return 0;
+}
+
+// Rank catalog entries by their best-matching name or alias; an empty query keeps catalog order
+export function searchProduce(query: string, catalog: ProduceCatalog): ProduceMatch[] {
+  const entries = Object.values(catalog);
+  if (!normalize(query)) return entries.map((entry) => ({ entry, score: 1 }));
+
+  return entries
+    .map((entry) => {
+      let best: ProduceMatch = { entry, score: scoreText(query, entry.name) };
+      (Object.keys(entry.aliases ?? {}) as AliasLanguage[]).forEach((language) => {
+        (entry.aliases?.[language] ?? []).forEach((alias) => {
+          const score = scoreText(query, alias);
+          if (score > best.score) best = { entry, score, matchedAlias: { language, alias } };
+        });
+      });
+      return best;
+    })
+    .filter((match) => match.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+export const formatAliases = (aliases: ProduceDefinition['aliases'], language: AliasLanguage) =>
+  (aliases?.[language] ?? []).join(', ');
+
+export const parseAliases = (text: string) =>
+  text
+    .split(/[,;|]/)
+    .map((alias) => alias.trim())
+    .filter(Boolean);
@@ -0,0 +1,106 @@
+import type { Vegetable } from '@/components/VegetableInput';
+import { getFreezingPoint, getPricePerKg } from '@/lib/produceCatalog';
+import { getLineWeightKg } from '@/lib/loadUnits';
+import { applyMaturity } from '@/lib/maturity';
+import { getLineLabel } from '@/lib/lots';
+import { EvaluationOptions } from '@/lib/compatibilityRules';
+import { planCompartments } from '@/lib/compartmentPlan';
+import { LineTreatments, TOP_ICING_ALLOWANCE_C } from '@/lib/mitigations';
+
+// Respiration and decay speed up about 2.5x per 10°C above the storage optimum
+const WARM_Q10 = 2.5;
+
+// Candidate setpoints are searched on this grid
+const SETPOINT_STEP_C = 0.5;
+
+export type SetpointLossCause = 'none' | 'chilling' | 'freezing' | 'warm';
+
+export interface ItemPenalty {
+  id: string;
+  name: string; // line label
+  kg: number;
+  pricePerKg: number;
+  lossFraction: number; // share of the lot's shelf life lost at the setpoint
+  lossValue: number; // PHP
+  cause: SetpointLossCause;
+}
+
+export interface SetpointEvaluation {
+  setpoint: number; // °C
+  items: ItemPenalty[];
+  totalLoss: number; // PHP
+}
+
+export interface SetpointPlan {
+  compromise: SetpointEvaluation; // best single setpoint for the whole load
+  split: SetpointEvaluation[]; // best setpoint per zone of the compartment plan
+  splitLoss: number; // PHP
+}
+
+// Chilling injury grows with how far and how long the item sits below its threshold
+export const chillingLossFraction = (degreesBelow: number, routeDurationHours: number) =>
+  Math.min(0.8, degreesBelow * 0.04 * (1 + routeDurationHours / 12));
+
+// Share of a lot's shelf life lost over the trip at a given cargo temperature
+function lossAt(line: Vegetable, setpoint: number, routeDurationHours: number, iced: boolean): { lossFraction: number; cause: SetpointLossCause } {
+  if (setpoint <= getFreezingPoint(line)) return { lossFraction: 1, cause: 'freezing' };
+  if (line.chillingThreshold !== undefined && setpoint < line.chillingThreshold) {
+    return { lossFraction: chillingLossFraction(line.chillingThreshold - setpoint, routeDurationHours), cause: 'chilling' };
+  }
+  const warmLimit = line.idealTemp.max + (iced ? TOP_ICING_ALLOWANCE_C : 0);
+  if (setpoint > warmLimit) {
+    // Extra shelf life used up compared with riding at the top of the ideal band
+    const speedup = Math.pow(WARM_Q10, (setpoint - warmLimit) / 10) - 1;
+    return { lossFraction: Math.min(1, (routeDurationHours * speedup) / (line.shelfLife * 24)), cause: 'warm' };
+  }
+  return { lossFraction: 0, cause: 'none' };
+}
+
+export function evaluateSetpoint(
+  lines: Vegetable[],
+  setpoint: number,
+  routeDurationHours: number,
+  treatments: LineTreatments = {}
+): SetpointEvaluation {
+  const lots = lines.map(applyMaturity);
+  const items = lots.map((line) => {
+    const { lossFraction, cause } = lossAt(line, setpoint, routeDurationHours, (treatments[line.id] ?? []).includes('top_icing'));
+    const kg = getLineWeightKg(line);
+    const pricePerKg = getPricePerKg(line);
+    return { id: line.id, name: getLineLabel(line, lots), kg, pricePerKg, lossFraction, lossValue: kg * pricePerKg * lossFraction, cause };
+  });
+  return { setpoint, items, totalLoss: items.reduce((sum, item) => sum + item.lossValue, 0) };
+}
+
+// Setpoint with the lowest quantity- and value-weighted loss. Chilling loss only falls and warm
+// loss only rises with temperature, so the optimum lies between the coldest and warmest bands.
+export function optimizeSetpoint(lines: Vegetable[], routeDurationHours: number, treatments: LineTreatments = {}): SetpointEvaluation {
+  const lots = lines.map(applyMaturity);
+  const low = Math.max(0, Math.min(...lots.map((line) => line.idealTemp.min)));
+  const high = Math.max(low, ...lots.map((line) => line.idealTemp.max));
+  let best = evaluateSetpoint(lines, low, routeDurationHours, treatments);
+  for (let setpoint = low + SETPOINT_STEP_C; setpoint <= high; setpoint += SETPOINT_STEP_C) {
+    const candidate = evaluateSetpoint(lines, setpoint, routeDurationHours, treatments);
+    if (candidate.totalLoss < best.totalLoss - 1e-9) best = candidate;
+  }
+  return best;
+}
+
+// Compromise setpoint for the whole load next to the alternative of one setpoint per zone
+export function planSetpoint(lines: Vegetable[], routeDurationHours: number, evaluation: EvaluationOptions = {}): SetpointPlan {
+  const treatments = evaluation.treatments ?? {};
+  const zones = planCompartments(lines, evaluation).compartments;
+  // Zone lines are lot-adjusted already; the originals keep each line's own maturity lookup
+  const split = zones.map((zone) =>
+    optimizeSetpoint(
+      lines.filter((line) => zone.lines.some((member) => member.id === line.id)),
+      routeDurationHours,
+      treatments
+    )
+  );
+  return {
+    compromise: optimizeSetpoint(lines, routeDurationHours, treatments),
+    split,
+    splitLoss: split.reduce((sum, zone) => sum + zone.totalLoss, 0),
+  };
+}
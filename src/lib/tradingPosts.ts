@@ -0,0 +1,85 @@
+import type { RegionId } from '@/lib/diurnalProfiles';
+
+// Offline list of the main vegetable trading posts and terminal markets, with typical truck
+// road distances and driving times between the ones linked by road
+
+export type IslandGroup = 'Luzon' | 'Visayas' | 'Mindanao';
+
+export interface TradingPost {
+  id: string;
+  name: string;
+  place: string;
+  islandGroup: IslandGroup;
+  region: RegionId; // climate profile used for departure planning
+}
+
+export interface RoadLink {
+  distanceKm: number;
+  durationHours: number; // loaded truck, typical traffic
+}
+
+export const TRADING_POSTS: Record<string, TradingPost> = {
+  la_trinidad: { id: 'la_trinidad', name: 'La Trinidad Vegetable Trading Post', place: 'La Trinidad, Benguet', islandGroup: 'Luzon', region: 'cordillera' },
+  nueva_vizcaya_agripinoy: { id: 'nueva_vizcaya_agripinoy', name: 'Nueva Vizcaya AgriPinoy Trading Center', place: 'Bambang, Nueva Vizcaya', islandGroup: 'Luzon', region: 'central_luzon' },
+  urdaneta: { id: 'urdaneta', name: 'Urdaneta City Public Market', place: 'Urdaneta, Pangasinan', islandGroup: 'Luzon', region: 'central_luzon' },
+  balintawak: { id: 'balintawak', name: 'Balintawak Market', place: 'Quezon City, Metro Manila', islandGroup: 'Luzon', region: 'ncr' },
+  divisoria: { id: 'divisoria', name: 'Divisoria Market', place: 'Tondo, Manila', islandGroup: 'Luzon', region: 'ncr' },
+  pasig: { id: 'pasig', name: 'Pasig Mega Market', place: 'Pasig, Metro Manila', islandGroup: 'Luzon', region: 'ncr' },
+  naga: { id: 'naga', name: 'Naga City People\'s Mall', place: 'Naga, Camarines Sur', islandGroup: 'Luzon', region: 'bicol' },
+  cebu_carbon: { id: 'cebu_carbon', name: 'Carbon Market', place: 'Cebu City', islandGroup: 'Visayas', region: 'central_visayas' },
+  mantalongon: { id: 'mantalongon', name: 'Mantalongon Vegetable Trading Post', place: 'Dalaguete, Cebu', islandGroup: 'Visayas', region: 'central_visayas' },
+  davao_bankerohan: { id: 'davao_bankerohan', name: 'Bankerohan Public Market', place: 'Davao City', islandGroup: 'Mindanao', region: 'davao' },
+  kapatagan: { id: 'kapatagan', name: 'Kapatagan Vegetable Trading Post', place: 'Digos, Davao del Sur', islandGroup: 'Mindanao', region: 'davao' },
+  malaybalay: { id: 'malaybalay', name: 'Malaybalay Trading Post', place: 'Malaybalay, Bukidnon', islandGroup: 'Mindanao', region: 'bukidnon' },
+  cdo_cogon: { id: 'cdo_cogon', name: 'Cogon Market', place: 'Cagayan de Oro', islandGroup: 'Mindanao', region: 'bukidnon' },
+};
+
+// [from, to, km, hours]; each pair is listed once and read both ways
+const ROAD_LINKS: [string, string, number, number][] = [
+  ['la_trinidad', 'nueva_vizcaya_agripinoy', 150, 4.5],
+  ['la_trinidad', 'urdaneta', 75, 2],
+  ['la_trinidad', 'balintawak', 250, 6.5],
+  ['la_trinidad', 'divisoria', 258, 7],
+  ['la_trinidad', 'pasig', 265, 7],
+  ['la_trinidad', 'naga', 630, 15],
+  ['nueva_vizcaya_agripinoy', 'urdaneta', 150, 4],
+  ['nueva_vizcaya_agripinoy', 'balintawak', 250, 6],
+  ['nueva_vizcaya_agripinoy', 'divisoria', 258, 6.5],
+  ['nueva_vizcaya_agripinoy', 'pasig', 260, 6.5],
+  ['nueva_vizcaya_agripinoy', 'naga', 630, 15],
+  ['urdaneta', 'balintawak', 175, 4],
+  ['urdaneta', 'divisoria', 183, 4.5],
+  ['urdaneta', 'pasig', 190, 4.5],
+  ['urdaneta', 'naga', 555, 13],
+  ['balintawak', 'divisoria', 9, 0.75],
+  ['balintawak', 'pasig', 18, 1],
+  ['balintawak', 'naga', 380, 9],
+  ['divisoria', 'pasig', 16, 1],
+  ['divisoria', 'naga', 380, 9],
+  ['pasig', 'naga', 370, 8.5],
+  ['cebu_carbon', 'mantalongon', 95, 2.5],
+  ['davao_bankerohan', 'kapatagan', 75, 2],
+  ['davao_bankerohan', 'malaybalay', 175, 4.5],
+  ['davao_bankerohan', 'cdo_cogon', 260, 6.5],
+  ['kapatagan', 'malaybalay', 215, 5.5],
+  ['kapatagan', 'cdo_cogon', 300, 7.5],
+  ['malaybalay', 'cdo_cogon', 90, 2.5],
+];
+
+const linkKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+const LINKS = new Map<string, RoadLink>(
+  ROAD_LINKS.map(([a, b, distanceKm, durationHours]) => [linkKey(a, b), { distanceKm, durationHours }])
+);
+
+// Road distance and driving time between two posts; null when they are not linked by road in the dataset
+export function getRoadLink(from: string | null | undefined, to: string | null | undefined): RoadLink | null {
+  if (!from || !to || from === to) return null;
+  return LINKS.get(linkKey(from, to)) ?? null;
+}
+
+// Posts grouped for the pickers, in list order
+export const TRADING_POSTS_BY_ISLAND = (['Luzon', 'Visayas', 'Mindanao'] as IslandGroup[]).map((islandGroup) => ({
+  islandGroup,
+  posts: Object.values(TRADING_POSTS).filter((post) => post.islandGroup === islandGroup),
+}));
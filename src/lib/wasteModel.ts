@@ -0,0 +1,12 @@
+import type { TreatmentId } from '@/lib/mitigations';
+
+// Waste fraction each treatment saves on the lot it covers
+export const TREATMENT_WASTE_CREDIT: Partial<Record<TreatmentId, number>> = { map: 0.02, one_mcp: 0.02, top_icing: 0.01 };
+
+// Optimized base waste of 10% with proper separation and storage conditions
+const OPTIMIZED_BASE_WASTE = 0.1;
+const MIN_WASTE = 0.05;
+
+// Packaging and pre-treatment also slow the lot's own decay, wherever it rides
+export const optimizedWasteFraction = (treatments: TreatmentId[]) =>
+  Math.max(OPTIMIZED_BASE_WASTE - treatments.reduce((sum, t) => sum + (TREATMENT_WASTE_CREDIT[t] ?? 0), 0), MIN_WASTE);
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Leaf, BarChart3, Truck, AlertCircle, Menu, X, ArrowRight, CheckCircle, Shield, Zap, Sprout } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
@@ -7,23 +7,62 @@ import { VegetableInput, Vegetable } from '@/components/VegetableInput';
 import { CompatibilityAnalysis } from '@/components/CompatibilityAnalysis';
 import { TruckVisualizer } from '@/components/TruckVisualizer';
 import { ImpactMetrics } from '@/components/ImpactMetrics';
+import { ProduceCatalogManager } from '@/components/ProduceCatalogManager';
+import { ShelfLifeAtArrival } from '@/components/ShelfLifeAtArrival';
+import { PolicyProfileManager } from '@/components/PolicyProfileManager';
+import { TreatmentSettings } from '@/components/TreatmentSettings';
+import { LoadRiskBreakdown } from '@/components/LoadRiskBreakdown';
+import { DepartureExposureChart } from '@/components/DepartureExposureChart';
+import { RouteStopsEditor } from '@/components/RouteStopsEditor';
+import { RouteLegSummary } from '@/components/RouteLegSummary';
+import { DelaySettings } from '@/components/DelaySettings';
+import { TripOutcomeSimulation } from '@/components/TripOutcomeSimulation';
+import { useProduceCatalog } from '@/hooks/use-produce-catalog';
+import { usePolicyProfiles } from '@/hooks/use-policy-profiles';
+import { formatPeso, getHumidityRange } from '@/lib/produceCatalog';
+import { MATURITY_STAGES, applyMaturity } from '@/lib/maturity';
+import { getLineLabel } from '@/lib/lots';
+import { AppliedMitigations, EvaluationOptions, evaluateLoad, findingsForLine, getLoadStatus } from '@/lib/compatibilityRules';
+import { planCompartments, resolveLineTreatments } from '@/lib/compartmentPlan';
+import { formatAtmosphere, recommendAtmosphere } from '@/lib/atmosphere';
+import { BUILT_IN_POLICIES, DEFAULT_POLICY_ID } from '@/lib/policyProfiles';
+import { computeLoadRisk } from '@/lib/loadRisk';
+import { TRAVEL_TIME_LABELS, planDeparture } from '@/lib/departurePlanner';
+import { DeliveryRoute, EMPTY_ROUTE, getRouteDurationHours, planRouteLegs, stopName } from '@/lib/deliveryRoute';
+import { DelayDistribution, simulateDelays } from '@/lib/delaySimulation';
+import { UNCOOLED_CARGO_TEMP_C } from '@/lib/ethyleneSimulation';
+import { TRADING_POSTS, TRADING_POSTS_BY_ISLAND, getRoadLink } from '@/lib/tradingPosts';
+import { DEFAULT_REGION_ID, REGION_PROFILES, RegionId, getDiurnalSwing, getRegionProfile } from '@/lib/diurnalProfiles';
+import { ResolutionAction, applyResolutionToLines, applyResolutionToMitigations, trucksAfterResolution } from '@/lib/conflictResolution';
+import type { MitigationId, TreatmentAssignment } from '@/lib/mitigations';
+import { computeArrivalShelfLife, parseLocalDateTime, toLocalDateTimeInput } from '@/lib/arrivalShelfLife';
+import { TRUCK_CAPACITY, TruckSize, calculateLoadCapacity, formatQuantity, getLineUnit, getLineWeightKg } from '@/lib/loadUnits';
 import heroImage from '@/assets/hero-filipino-farmers.jpg';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { toast } from '@/components/ui/use-toast';
 
 // Planning parameters types
 type TruckType = 'ambient' | 'refrigerated' | 'ventilated';
-type TruckSize = 'small' | 'medium' | 'large';
-type TravelTime = 'early_morning' | 'daytime' | 'evening' | 'night';
 
 interface ScenarioMeta {
   truckType: TruckType;
   truckSize: TruckSize;
   truckQuantity: number;
-  bestTravelTime: TravelTime;
   autoTruckQuantity: boolean;
   routeDurationHours: number;
+  originPostId: string | null; // trading post picked as origin; fills in duration, distance and region
+  destinationPostId: string | null;
+  routeDistanceKm: number | null; // from the trading-post dataset; null when unknown
   ambientDeltaC: number;
+  setpointC: number | null; // refrigerated setpoint override; null follows the recommendation
+  departureTime: string | null; // planned local departure; null means now
+  region: RegionId; // climate profile the departure is planned against
+  route: DeliveryRoute; // origin and ordered stops; no stops means a direct trip of routeDurationHours
+  routeDelay: DelayDistribution | null; // holdups on a direct trip; legs of a multi-stop route carry their own
+  minRemainingShelfLifeDays: number; // lines arriving with less are flagged
+  appliedMitigations: AppliedMitigations; // planner's fix for each compatibility finding, by finding key
+  treatments: TreatmentAssignment[]; // scrubbers, sachets, top-icing, MAP and 1-MCP on the load, a zone or a line
+  policyProfileId: string; // buyer policy the load is checked against
 }
 
 const Index = () => {
@@ -35,46 +74,165 @@ const Index = () => {
     truckType: 'refrigerated',
     truckSize: 'medium',
     truckQuantity: 1,
-    bestTravelTime: 'early_morning',
     autoTruckQuantity: true,
     routeDurationHours: 3,
+    originPostId: null,
+    destinationPostId: null,
+    routeDistanceKm: null,
     ambientDeltaC: 4,
+    setpointC: null,
+    departureTime: null,
+    region: DEFAULT_REGION_ID,
+    route: EMPTY_ROUTE,
+    routeDelay: null,
+    minRemainingShelfLifeDays: 2,
+    appliedMitigations: {},
+    treatments: [],
+    policyProfileId: DEFAULT_POLICY_ID,
   });
+  const { catalog, customProduce, saveProduce, importProduce, deleteProduce, isBuiltIn } = useProduceCatalog();
+  const { policies, customPolicies, savePolicy, deletePolicy, isBuiltIn: isBuiltInPolicy } = usePolicyProfiles();
 
   const handleVegetablesChange = (newVegetables: Vegetable[]) => {
     setVegetables(newVegetables);
   };
 
-  const getTotalQuantity = () => vegetables.reduce((sum, veg) => sum + veg.quantity, 0);
-  const capacityBySize: Record<TruckSize, number> = { small: 100, medium: 200, large: 400 };
-  const getTotalCapacity = () => capacityBySize[meta.truckSize] * (meta.autoTruckQuantity ? Math.max(1, Math.ceil(getTotalQuantity() / capacityBySize[meta.truckSize])) : Math.max(1, meta.truckQuantity));
-  const utilization = Math.round((getTotalQuantity() / Math.max(1, getTotalCapacity())) * 100);
-  const recommendedTruckCount = Math.max(1, Math.ceil(getTotalQuantity() / capacityBySize[meta.truckSize]));
+  // Capacity is checked by payload weight and cubic volume; utilization follows whichever binds first
+  const loadCapacity = calculateLoadCapacity(vegetables, meta.truckSize, meta.autoTruckQuantity ? undefined : meta.truckQuantity);
+  const recommendedTruckCount = loadCapacity.trucksNeeded;
+  const utilization = Math.round(loadCapacity.utilization);
+  // With stops set the trip lasts as long as its legs together
+  const routeDurationHours = getRouteDurationHours(meta.route, meta.routeDurationHours);
+  const roadLink = getRoadLink(meta.originPostId, meta.destinationPostId);
+  const getArrivalShelfLife = () =>
+    computeArrivalShelfLife(
+      vegetables,
+      parseLocalDateTime(meta.departureTime) ?? new Date(),
+      routeDurationHours,
+      meta.minRemainingShelfLifeDays ?? 2
+    );
+  const formatLoad = () => `${Math.round(loadCapacity.totalKg).toLocaleString()} kg • ${loadCapacity.totalM3.toFixed(1)} m³`;
   
-  const getCompatibilityStatus = () => {
-    if (vegetables.length < 2) return { status: 'neutral', text: 'Add more vegetables' };
-    
-    // Quick compatibility check
-    for (let i = 0; i < vegetables.length; i++) {
-      for (let j = i + 1; j < vegetables.length; j++) {
-        const veg1 = vegetables[i];
-        const veg2 = vegetables[j];
-        
-        const ethyleneConflict = (
-          (veg1.ethyleneProduction === 'high' && veg2.ethyleneSensitivity === 'high') ||
-          (veg2.ethyleneProduction === 'high' && veg1.ethyleneSensitivity === 'high')
-        );
-        
-        if (ethyleneConflict) {
-          return { status: 'incompatible', text: 'Compatibility issues detected' };
+  // Profiles deleted since the scenario was saved fall back to the default
+  const policy = policies[meta.policyProfileId ?? DEFAULT_POLICY_ID] ?? BUILT_IN_POLICIES[DEFAULT_POLICY_ID];
+  const { appliedMitigations, treatments: treatmentAssignments, departureTime, setpointC, truckType, truckSize, route, routeDelay } = meta;
+  const minRemainingDays = meta.minRemainingShelfLifeDays ?? 2;
+  const truckCount = meta.autoTruckQuantity ? recommendedTruckCount : meta.truckQuantity;
+  // Zone targets of treatments are numbered once, on the plan before treatments
+  const treatmentZones = useMemo(
+    () => planCompartments(vegetables, { applied: appliedMitigations ?? {}, policy }).compartments,
+    [vegetables, appliedMitigations, policy]
+  );
+  const evaluation = useMemo<EvaluationOptions>(
+    () => ({
+      applied: appliedMitigations ?? {},
+      policy,
+      // Treatments resolve to the lines they cover; every analysis sees the same mitigated picture
+      treatments: resolveLineTreatments(vegetables, treatmentAssignments ?? [], treatmentZones),
+    }),
+    [vegetables, appliedMitigations, policy, treatmentAssignments, treatmentZones]
+  );
+  // Same rule engine as the analysis tab, so the status bar and exports agree with it
+  const getCompatibilityStatus = () => getLoadStatus(vegetables, evaluation);
+
+  const compatibilityStatus = getCompatibilityStatus();
+  const region = getRegionProfile(meta.region);
+  const departurePlan = useMemo(
+    () =>
+      planDeparture(vegetables, {
+        region: region.id,
+        departure: parseLocalDateTime(departureTime) ?? new Date(),
+        routeDurationHours,
+        truckType,
+        setpointC,
+        treatments: evaluation.treatments,
+      }),
+    [vegetables, region.id, departureTime, routeDurationHours, truckType, setpointC, evaluation.treatments]
+  );
+  const routeLegs = useMemo(
+    () =>
+      planRouteLegs(vegetables, route ?? EMPTY_ROUTE, {
+        departure: departurePlan.planned.departure,
+        truckType,
+        truckSize,
+        truckCount,
+        cargoTempC: departurePlan.setpointC ?? UNCOOLED_CARGO_TEMP_C,
+        treatments: evaluation.treatments,
+        minRemainingDays,
+      }),
+    [vegetables, route, departurePlan, truckType, truckSize, truckCount, evaluation.treatments, minRemainingDays]
+  );
+  // Multi-stop routes are simulated leg by leg with each stop's drops; a direct trip is one leg
+  const delayOutcome = useMemo(
+    () =>
+      simulateDelays(
+        vegetables,
+        routeLegs.length > 0
+          ? route.stops.map((stop) => ({ hours: stop.legHours, delay: stop.delay }))
+          : [{ hours: routeDurationHours, delay: routeDelay ?? undefined }],
+        {
+          departure: departurePlan.planned.departure,
+          minRemainingDays,
+          cargoTempC: departurePlan.setpointC ?? UNCOOLED_CARGO_TEMP_C,
+          treatments: evaluation.treatments,
+          deliveries:
+            routeLegs.length > 0
+              ? routeLegs.flatMap((leg) =>
+                  leg.drops.flatMap((drop) => {
+                    const line = vegetables.find((v) => v.id === drop.id);
+                    return line ? [{ leg: leg.index, line, kg: drop.kg }] : [];
+                  })
+                )
+              : undefined,
         }
-      }
-    }
-    
-    return { status: 'compatible', text: 'All vegetables compatible' };
+      ),
+    [vegetables, routeLegs, route, routeDurationHours, routeDelay, departurePlan, minRemainingDays, evaluation.treatments]
+  );
+  const hasDelays = routeLegs.length > 0 ? route.stops.some((stop) => stop.delay) : !!routeDelay;
+  const loadRisk = useMemo(
+    () => computeLoadRisk(vegetables, { routeDurationHours, ambientDeltaC: meta.ambientDeltaC, truckType, evaluation }),
+    [vegetables, routeDurationHours, meta.ambientDeltaC, truckType, evaluation]
+  );
+
+  // Assistant suggestions either edit the load or mark the line's conflicts for a separate truck and add it
+  const applyResolution = (action: ResolutionAction) => {
+    setVegetables((lines) => applyResolutionToLines(lines, action, catalog));
+    setMeta((m) => {
+      const truckCount = m.autoTruckQuantity ? recommendedTruckCount : m.truckQuantity;
+      const trucks = trucksAfterResolution(action, truckCount);
+      return {
+        ...m,
+        appliedMitigations: applyResolutionToMitigations(action, m.appliedMitigations ?? {}),
+        // The extra truck is pinned, since the capacity-based count does not know about it
+        ...(trucks !== truckCount ? { truckQuantity: trucks, autoTruckQuantity: false } : {}),
+      };
+    });
   };
 
-  const compatibilityStatus = getCompatibilityStatus();
+  // Picking both ends of a road-linked pair fills in the duration and distance; the origin also sets the climate region
+  const setRouteEnd = (end: 'originPostId' | 'destinationPostId', id: string | null) => {
+    setMeta((m) => {
+      const next = { ...m, [end]: id };
+      const link = getRoadLink(next.originPostId, next.destinationPostId);
+      const origin = next.originPostId ? TRADING_POSTS[next.originPostId] : undefined;
+      return {
+        ...next,
+        region: end === 'originPostId' && origin ? origin.region : next.region,
+        routeDistanceKm: link?.distanceKm ?? null,
+        routeDurationHours: link?.durationHours ?? next.routeDurationHours,
+      };
+    });
+  };
+
+  // Passing null clears the mitigation for that finding
+  const applyMitigation = (key: string, mitigation: MitigationId | null) => {
+    setMeta((m) => {
+      const next = { ...(m.appliedMitigations ?? {}) };
+      if (mitigation) next[key] = mitigation;
+      else delete next[key];
+      return { ...m, appliedMitigations: next };
+    });
+  };
 
   const scrollToDemo = () => {
     document.getElementById('demo-section')?.scrollIntoView({ behavior: 'smooth' });
@@ -172,15 +330,36 @@ const Index = () => {
   // Export utilities
   const exportScenarioCSV = () => {
     try {
-      const headers = ['Name','Quantity','Ethylene Production','Ethylene Sensitivity','Temp Min (°C)','Temp Max (°C)','Shelf Life (days)'];
-      const rows = vegetables.map(v => [
+      const headers = ['Name','Lot','Grade','Harvest Date','Quantity','Unit','Weight (kg)','Maturity','Ethylene Production','Ethylene Sensitivity','Temp Min (°C)','Temp Max (°C)','Humidity Min (%)','Humidity Max (%)','O2 (%)','CO2 (%)','CA Setting','Shelf Life (days)','Days Left at Arrival','Sell By',`Policy Status (${policy.name})`];
+      const arrival = getArrivalShelfLife();
+      const atmosphere = recommendAtmosphere(vegetables, evaluation);
+      const evaluations = evaluateLoad(vegetables, evaluation);
+      const policyStatus = (id: string) => {
+        const findings = findingsForLine(evaluations, id);
+        return findings.some((f) => f.blocking) ? 'blocked' : findings.length > 0 ? 'warning' : 'ok';
+      };
+      const rows = vegetables.map(applyMaturity).map((v, i) => [
         v.name,
+        v.lotCode ?? '',
+        v.grade ?? '',
+        v.harvestDate ?? '',
         String(v.quantity),
+        getLineUnit(v),
+        String(Math.round(getLineWeightKg(v))),
+        v.maturity ? MATURITY_STAGES[v.maturity].label : '',
         v.ethyleneProduction,
         v.ethyleneSensitivity,
         String(v.idealTemp.min),
         String(v.idealTemp.max),
-        String(v.shelfLife)
+        String(getHumidityRange(v).min),
+        String(getHumidityRange(v).max),
+        v.atmosphere ? `${v.atmosphere.o2.min}-${v.atmosphere.o2.max}` : '',
+        v.atmosphere ? `${v.atmosphere.co2.min}-${v.atmosphere.co2.max}` : '',
+        formatAtmosphere((atmosphere.zones.find((z) => z.lineIds.includes(v.id)) ?? atmosphere.load).setting),
+        String(v.shelfLife),
+        arrival[i].remainingAtArrivalDays.toFixed(1),
+        arrival[i].sellBy.toISOString(),
+        policyStatus(v.id)
       ]);
       const csv = [headers, ...rows].map(r => r.map(f => /[",\n]/.test(f) ? '"'+f.replace(/"/g,'""')+'"' : f).join(',')).join('\n');
       const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
@@ -198,7 +377,8 @@ const Index = () => {
 
   const copyScenarioJSON = () => {
     try {
-      const data = { vegetables, meta };
+      // The profile travels with the scenario so custom tolerances are not lost
+      const data = { vegetables, meta, policy };
       const text = JSON.stringify(data, null, 2);
       if (navigator.clipboard && navigator.clipboard.writeText) {
         navigator.clipboard.writeText(text);
@@ -219,19 +399,61 @@ const Index = () => {
 
   const exportScenarioPDF = () => {
     try {
-      const travelTimeLabel = (t: TravelTime) =>
-        t === 'early_morning' ? 'Early Morning' : t === 'daytime' ? 'Daytime' : t === 'evening' ? 'Evening' : 'Night';
       const date = new Date().toLocaleString();
+      const arrival = getArrivalShelfLife();
+      const atmosphere = recommendAtmosphere(vegetables, evaluation);
+      const atmosphereRows = (atmosphere.zones.length > 1 ? atmosphere.zones : [atmosphere.load])
+        .map(
+          (zone) => `
+            <tr>
+              <td>${zone.zone === null ? 'Whole load' : `Zone ${zone.zone}`}</td>
+              <td>${zone.names.join(', ')}</td>
+              <td>${formatAtmosphere(zone.setting)}</td>
+              <td>${[...zone.limitedBy.map((n) => `limited by ${n}`), ...(zone.setting.controlled ? zone.withoutBenefit.map((n) => `no benefit for ${n}`) : [])].join('; ')}</td>
+            </tr>`
+        )
+        .join('');
+      const co2Flags = atmosphere.flags
+        .map((f) => `<li>${f.name}: ${f.injury} above ${f.co2Max}% CO₂ (${f.source === 'map' ? 'MAP bags' : 'zone-mates'} ~${f.exposurePct}%)</li>`)
+        .join('');
+      const riskRows = loadRisk.factors
+        .map(
+          (f) => `
+            <tr>
+              <td>${f.label}</td>
+              <td class="num">${f.points} / ${f.weight}</td>
+              <td>${f.detail}</td>
+            </tr>`
+        )
+        .join('');
+      const legRows = routeLegs
+        .map(
+          (leg) => `
+            <tr>
+              <td>${leg.from} → ${leg.to}</td>
+              <td class="num">${leg.startHour}–${leg.endHour}</td>
+              <td class="num">${Math.round(leg.loadKg)}</td>
+              <td class="num">${Math.round(leg.utilization)}%</td>
+              <td class="num">${leg.peakEthylenePpm.toFixed(2)}${leg.ethyleneExceeded.length > 0 ? ` ⚠ ${leg.ethyleneExceeded.join(', ')}` : ''}</td>
+              <td>${leg.drops.map((d) => `${d.name} ${Math.round(d.kg)} kg (${d.shelfLife.remainingAtArrivalDays.toFixed(1)} d left)`).join('; ')}</td>
+            </tr>`
+        )
+        .join('');
       const rows = vegetables
+        .map(applyMaturity)
         .map(
-          (v) => `
+          (v, i) => `
             <tr>
-              <td>${v.name}</td>
-              <td class="num">${v.quantity}</td>
+              <td>${getLineLabel(v, vegetables)}${v.grade ? ` · Grade ${v.grade}` : ''}${v.maturity ? ` (${MATURITY_STAGES[v.maturity].label})` : ''}</td>
+              <td class="num">${formatQuantity(v.quantity, getLineUnit(v))}</td>
+              <td class="num">${Math.round(getLineWeightKg(v))}</td>
               <td>${v.ethyleneProduction}</td>
               <td>${v.ethyleneSensitivity}</td>
               <td>${v.idealTemp.min}–${v.idealTemp.max} °C</td>
+              <td>${getHumidityRange(v).min}–${getHumidityRange(v).max}%</td>
               <td class="num">${v.shelfLife}</td>
+              <td class="num">${arrival[i].status === 'expired' ? 'Expired' : arrival[i].remainingAtArrivalDays.toFixed(1)}${arrival[i].status === 'low' ? ' ⚠' : ''}</td>
+              <td>${arrival[i].sellBy.toLocaleDateString()}</td>
             </tr>`
         )
         .join('');
@@ -275,30 +497,85 @@ const Index = () => {
 
           <h2>Overview</h2>
           <div class="grid card">
-            <div><strong>Total Load</strong><br/>${getTotalQuantity()} units</div>
-            <div><strong>Utilization</strong><br/>${isFinite(utilization) ? utilization : 0}%</div>
-            <div><strong>Truck</strong><br/>${meta.truckQuantity} × ${meta.truckSize} (${meta.truckType})</div>
-            <div><strong>Best Time</strong><br/>${travelTimeLabel(meta.bestTravelTime)}</div>
-            <div style="grid-column: 1 / -1;"><strong>Status</strong><br/>${compatibilityStatus.text}</div>
+            <div><strong>Total Load</strong><br/>${formatLoad()}</div>
+            <div><strong>Utilization</strong><br/>${isFinite(utilization) ? utilization : 0}% (${loadCapacity.bindingLimit}-limited)</div>
+            ${meta.originPostId || meta.destinationPostId ? `<div><strong>Route</strong><br/>${[meta.originPostId, meta.destinationPostId].map((id) => (id ? TRADING_POSTS[id]?.name ?? id : '—')).join(' → ')} (${meta.routeDistanceKm != null ? `${meta.routeDistanceKm} km, ` : ''}${routeDurationHours} h${roadLink && meta.routeDistanceKm == null ? ', custom duration' : ''})</div>` : ''}
+            <div><strong>Truck</strong><br/>${meta.autoTruckQuantity ? recommendedTruckCount : meta.truckQuantity} × ${meta.truckSize} (${meta.truckType})</div>
+            <div><strong>Best Time</strong><br/>${TRAVEL_TIME_LABELS[departurePlan.best.travelTime]} (depart ${departurePlan.best.departure.toLocaleString()}, ~${formatPeso(departurePlan.best.lossValue)} loss)</div>
+            <div><strong>Planned Departure</strong><br/>${departurePlan.planned.departure.toLocaleString()} in ${region.name} (~${formatPeso(departurePlan.planned.lossValue)} loss, peak ${departurePlan.planned.peakAmbientC.toFixed(1)}°C outside)</div>
+            <div><strong>Buyer Policy</strong><br/>${policy.name}${policy.description ? ` — ${policy.description}` : ''}</div>
+            <div><strong>Status</strong><br/>${compatibilityStatus.text}</div>
+            <div><strong>Load Risk</strong><br/>${loadRisk.score}/100 (${loadRisk.level})</div>
+            ${hasDelays ? `<div><strong>With Delays (P50 / P90)</strong><br/>${delayOutcome.quality.p50.toFixed(0)}% / ${delayOutcome.quality.p90.toFixed(0)}% shelf life left, ${delayOutcome.wastePct.p50.toFixed(1)}% / ${delayOutcome.wastePct.p90.toFixed(1)}% waste</div>` : ''}
           </div>
 
+          <h2>Risk Breakdown</h2>
+          <table>
+            <thead>
+              <tr>
+                <th>Factor</th>
+                <th>Points</th>
+                <th>Basis</th>
+              </tr>
+            </thead>
+            <tbody>
+              ${riskRows}
+            </tbody>
+          </table>
+
           <h2>Load Details</h2>
           <table>
             <thead>
               <tr>
                 <th>Name</th>
                 <th>Qty</th>
+                <th>kg</th>
                 <th>Ethylene Prod.</th>
                 <th>Ethylene Sens.</th>
                 <th>Temp Range</th>
+                <th>Humidity</th>
                 <th>Shelf Life (days)</th>
+                <th>Days Left at Arrival</th>
+                <th>Sell By</th>
               </tr>
             </thead>
             <tbody>
-              ${rows || '<tr><td colspan="6" class="muted">No vegetables added</td></tr>'}
+              ${rows || '<tr><td colspan="10" class="muted">No vegetables added</td></tr>'}
             </tbody>
           </table>
 
+          ${legRows ? `
+          <h2>Delivery Route</h2>
+          <table>
+            <thead>
+              <tr>
+                <th>Leg</th>
+                <th>Hours</th>
+                <th>kg on Board</th>
+                <th>Utilization</th>
+                <th>Ethylene Peak (ppm)</th>
+                <th>Unloaded</th>
+              </tr>
+            </thead>
+            <tbody>${legRows}</tbody>
+          </table>` : ''}
+
+          <h2>Controlled Atmosphere</h2>
+          <table>
+            <thead>
+              <tr>
+                <th>Zone</th>
+                <th>Produce</th>
+                <th>Setting</th>
+                <th>Notes</th>
+              </tr>
+            </thead>
+            <tbody>
+              ${atmosphereRows || '<tr><td colspan="4" class="muted">No vegetables added</td></tr>'}
+            </tbody>
+          </table>
+          ${co2Flags ? `<p><strong>High-CO₂ risk</strong></p><ul>${co2Flags}</ul>` : ''}
+
           <div class="muted" style="margin-top:16px;">Prepared with ShelfLife+ simulator</div>
           <div class="footer">© 2024 ShelfLife+ · Smarter Transport, Fresher Harvests</div>
         </body>
@@ -327,10 +604,21 @@ const Index = () => {
       truckType: 'refrigerated',
       truckSize: 'medium',
       truckQuantity: 1,
-      bestTravelTime: 'early_morning',
       autoTruckQuantity: true,
       routeDurationHours: 3,
+      originPostId: null,
+      destinationPostId: null,
+      routeDistanceKm: null,
       ambientDeltaC: 4,
+      setpointC: null,
+      departureTime: null,
+      region: DEFAULT_REGION_ID,
+      route: EMPTY_ROUTE,
+      routeDelay: null,
+      minRemainingShelfLifeDays: 2,
+      appliedMitigations: {},
+      treatments: [],
+      policyProfileId: DEFAULT_POLICY_ID,
     });
     try {
       localStorage.removeItem(STORAGE_KEY);
@@ -367,27 +655,33 @@ const Index = () => {
             id: crypto.randomUUID(),
             name: 'Tomato',
             quantity: 80,
+            unit: 'crate',
             ethyleneProduction: 'high',
             ethyleneSensitivity: 'low',
             idealTemp: { min: 10, max: 12 },
+            idealHumidity: { min: 90, max: 95 },
             shelfLife: 7,
           },
           {
             id: crypto.randomUUID(),
             name: 'Cabbage',
             quantity: 60,
+            unit: 'sack',
             ethyleneProduction: 'low',
             ethyleneSensitivity: 'medium',
             idealTemp: { min: 0, max: 4 },
+            idealHumidity: { min: 98, max: 100 },
             shelfLife: 20,
           },
           {
             id: crypto.randomUUID(),
             name: 'Eggplant',
             quantity: 40,
+            unit: 'crate',
             ethyleneProduction: 'medium',
             ethyleneSensitivity: 'high',
             idealTemp: { min: 10, max: 12 },
+            idealHumidity: { min: 90, max: 95 },
             shelfLife: 6,
           },
         ];
@@ -702,7 +996,7 @@ const Index = () => {
                     <Truck className="w-5 h-5 text-muted-foreground" />
                     <span className="text-sm text-muted-foreground">Load:</span>
                     <Badge variant="secondary" className="font-medium">
-                      {getTotalQuantity()} units
+                      {formatLoad()}
                     </Badge>
                   </div>
                   
@@ -716,6 +1010,16 @@ const Index = () => {
                       {compatibilityStatus.text}
                     </Badge>
                   </div>
+
+                  <div className="flex items-center gap-2">
+                    <Shield className="w-5 h-5 text-muted-foreground" />
+                    <span className="text-sm text-muted-foreground">Risk:</span>
+                    <Badge
+                      variant={loadRisk.level === 'high' ? 'destructive' : loadRisk.level === 'moderate' ? 'secondary' : 'default'}
+                    >
+                      {loadRisk.score}/100 ({loadRisk.level})
+                    </Badge>
+                  </div>
                 </div>
                 
                 <div className="flex items-center gap-2">
@@ -748,6 +1052,11 @@ const Index = () => {
                   </Button>
                 </div>
               </div>
+              {vegetables.length > 0 && (
+                <div className="mt-4 pt-4 border-t border-border">
+                  <LoadRiskBreakdown risk={loadRisk} />
+                </div>
+              )}
             </Card>
           </div>
 
@@ -779,10 +1088,19 @@ const Index = () => {
           <div className="space-y-8">
             {activeTab === 'input' && (
               <div className="grid lg:grid-cols-3 gap-8">
-                <div className="lg:col-span-2">
+                <div className="lg:col-span-2 space-y-8">
                   <VegetableInput 
                     vegetables={vegetables} 
                     onVegetablesChange={handleVegetablesChange} 
+                    catalog={catalog}
+                  />
+                  <ProduceCatalogManager
+                    catalog={catalog}
+                    customProduce={customProduce}
+                    isBuiltIn={isBuiltIn}
+                    onSave={saveProduce}
+                    onImport={importProduce}
+                    onDelete={deleteProduce}
                   />
                 </div>
                 
@@ -839,9 +1157,11 @@ const Index = () => {
                           value={meta.truckSize}
                           onChange={(e) => setMeta((m) => ({ ...m, truckSize: e.target.value as any }))}
                         >
-                          <option value="small">Small</option>
-                          <option value="medium">Medium</option>
-                          <option value="large">Large</option>
+                          {(Object.keys(TRUCK_CAPACITY) as TruckSize[]).map((size) => (
+                            <option key={size} value={size}>
+                              {size.charAt(0).toUpperCase() + size.slice(1)} ({TRUCK_CAPACITY[size].payloadKg.toLocaleString()} kg, {TRUCK_CAPACITY[size].volumeM3} m³)
+                            </option>
+                          ))}
                         </select>
                       </div>
                       <div className="flex items-center justify-between gap-2 col-span-2">
@@ -864,7 +1184,7 @@ const Index = () => {
                           type="number"
                           min={1}
                           className="w-full border rounded-md p-2 bg-background"
-                          value={meta.autoTruckQuantity ? Math.max(1, Math.ceil(getTotalQuantity() / capacityBySize[meta.truckSize])) : meta.truckQuantity}
+                          value={meta.autoTruckQuantity ? recommendedTruckCount : meta.truckQuantity}
                           disabled={meta.autoTruckQuantity}
                           onChange={(e) =>
                             setMeta((m) => ({ ...m, truckQuantity: Math.max(1, Number(e.target.value || 1)) }))
@@ -883,6 +1203,52 @@ const Index = () => {
                           </div>
                         )}
                       </div>
+                      <div>
+                        <label className="block text-sm text-muted-foreground mb-1">Origin</label>
+                        <select
+                          className="w-full border rounded-md p-2 bg-background"
+                          value={meta.originPostId ?? ''}
+                          onChange={(e) => setRouteEnd('originPostId', e.target.value || null)}
+                        >
+                          <option value="">Not set</option>
+                          {TRADING_POSTS_BY_ISLAND.map(({ islandGroup, posts }) => (
+                            <optgroup key={islandGroup} label={islandGroup}>
+                              {posts.map((post) => (
+                                <option key={post.id} value={post.id}>
+                                  {post.name}
+                                </option>
+                              ))}
+                            </optgroup>
+                          ))}
+                        </select>
+                        <p className="mt-1 text-xs text-muted-foreground">Also sets the origin region</p>
+                      </div>
+                      <div>
+                        <label className="block text-sm text-muted-foreground mb-1">Destination</label>
+                        <select
+                          className="w-full border rounded-md p-2 bg-background"
+                          value={meta.destinationPostId ?? ''}
+                          onChange={(e) => setRouteEnd('destinationPostId', e.target.value || null)}
+                        >
+                          <option value="">Not set</option>
+                          {TRADING_POSTS_BY_ISLAND.map(({ islandGroup, posts }) => (
+                            <optgroup key={islandGroup} label={islandGroup}>
+                              {posts.map((post) => (
+                                <option key={post.id} value={post.id}>
+                                  {post.name}
+                                </option>
+                              ))}
+                            </optgroup>
+                          ))}
+                        </select>
+                        <p className="mt-1 text-xs text-muted-foreground">
+                          {roadLink
+                            ? `${roadLink.distanceKm} km by road, typically ${roadLink.durationHours} h`
+                            : meta.originPostId && meta.destinationPostId
+                              ? 'No road link in the dataset; enter the duration by hand'
+                              : 'Fills in route duration and distance'}
+                        </p>
+                      </div>
                       <div>
                         <label className="block text-sm text-muted-foreground mb-1">Route Duration (hours)</label>
                         <input
@@ -890,9 +1256,18 @@ const Index = () => {
                           min={0.5}
                           step={0.5}
                           className="w-full border rounded-md p-2 bg-background"
-                          value={meta.routeDurationHours}
-                          onChange={(e) => setMeta((m) => ({ ...m, routeDurationHours: Math.max(0.5, Number(e.target.value || 0.5)) }))}
+                          value={routeDurationHours}
+                          disabled={routeLegs.length > 0}
+                          onChange={(e) =>
+                            setMeta((m) => ({ ...m, routeDurationHours: Math.max(0.5, Number(e.target.value || 0.5)), routeDistanceKm: null }))
+                          }
                         />
+                        {routeLegs.length === 0 && roadLink && meta.routeDistanceKm == null && (
+                          <p className="mt-1 text-xs text-muted-foreground">Custom duration, not the road-link figure</p>
+                        )}
+                        {routeLegs.length > 0 && (
+                          <p className="mt-1 text-xs text-muted-foreground">Sum of the delivery route legs</p>
+                        )}
                       </div>
                       <div>
                         <label className="block text-sm text-muted-foreground mb-1">Ambient Day-Night Delta (°C)</label>
@@ -904,30 +1279,161 @@ const Index = () => {
                           value={meta.ambientDeltaC}
                           onChange={(e) => setMeta((m) => ({ ...m, ambientDeltaC: Math.max(0, Number(e.target.value || 0)) }))}
                         />
-                        <p className="mt-1 text-xs text-muted-foreground">Bigger delta favors night travel</p>
+                        <p className="mt-1 text-xs text-muted-foreground">
+                          Typical for {region.name} this month: {getDiurnalSwing(region.id, departurePlan.planned.departure)}°C
+                        </p>
+                      </div>
+                      <div>
+                        <label className="block text-sm text-muted-foreground mb-1">Planned Departure</label>
+                        <input
+                          type="datetime-local"
+                          className="w-full border rounded-md p-2 bg-background"
+                          value={meta.departureTime ?? ''}
+                          onChange={(e) => setMeta((m) => ({ ...m, departureTime: e.target.value || null }))}
+                        />
+                        <p className="mt-1 text-xs text-muted-foreground">Leave blank to plan from the current time</p>
+                      </div>
+                      <div>
+                        <label className="block text-sm text-muted-foreground mb-1">Origin Region</label>
+                        <select
+                          className="w-full border rounded-md p-2 bg-background"
+                          value={region.id}
+                          onChange={(e) => setMeta((m) => ({ ...m, region: e.target.value as RegionId }))}
+                        >
+                          {Object.values(REGION_PROFILES).map((profile) => (
+                            <option key={profile.id} value={profile.id}>
+                              {profile.name}
+                            </option>
+                          ))}
+                        </select>
+                        <p className="mt-1 text-xs text-muted-foreground">Sets the hourly temperature profile for departure planning</p>
                       </div>
+                      <div>
+                        <label className="block text-sm text-muted-foreground mb-1">Min. Shelf Life at Arrival (days)</label>
+                        <input
+                          type="number"
+                          min={0}
+                          step={0.5}
+                          className="w-full border rounded-md p-2 bg-background"
+                          value={meta.minRemainingShelfLifeDays ?? 2}
+                          onChange={(e) => setMeta((m) => ({ ...m, minRemainingShelfLifeDays: Math.max(0, Number(e.target.value || 0)) }))}
+                        />
+                        <p className="mt-1 text-xs text-muted-foreground">Lines arriving with less are flagged</p>
+                      </div>
+                      {meta.truckType === 'refrigerated' && (
+                        <div>
+                          <label className="block text-sm text-muted-foreground mb-1">Reefer Setpoint (°C)</label>
+                          <input
+                            type="number"
+                            min={-5}
+                            max={20}
+                            step={0.5}
+                            placeholder="Auto"
+                            className="w-full border rounded-md p-2 bg-background"
+                            value={meta.setpointC ?? ''}
+                            onChange={(e) =>
+                              setMeta((m) => ({ ...m, setpointC: e.target.value === '' ? null : Number(e.target.value) }))
+                            }
+                          />
+                          <p className="mt-1 text-xs text-muted-foreground">Leave blank to use the recommended range</p>
+                        </div>
+                      )}
                     </div>
                     <div className="mt-4 text-sm text-muted-foreground">
-                      Capacity: {getTotalCapacity()} units • Utilization: {isFinite(utilization) ? utilization : 0}%
+                      Capacity: {loadCapacity.capacityKg.toLocaleString()} kg / {loadCapacity.capacityM3} m³ •
+                      Weight {Math.round(loadCapacity.weightUtilization)}% • Volume {Math.round(loadCapacity.volumeUtilization)}% •
+                      Utilization: {isFinite(utilization) ? utilization : 0}% ({loadCapacity.bindingLimit}-limited)
                     </div>
                   </Card>
                 </div>
+                <div className="lg:col-span-2">
+                  <RouteStopsEditor
+                    vegetables={vegetables}
+                    route={meta.route ?? EMPTY_ROUTE}
+                    onChange={(route) => setMeta((m) => ({ ...m, route }))}
+                  />
+                </div>
+                <div className="lg:col-span-2">
+                  <DelaySettings
+                    targets={
+                      (meta.route ?? EMPTY_ROUTE).stops.length > 0
+                        ? meta.route.stops.map((stop, i) => ({
+                            id: stop.id,
+                            label: `${stopName(meta.route, i - 1)} → ${stopName(meta.route, i)}`,
+                            delay: stop.delay,
+                          }))
+                        : [{ id: 'route', label: 'Whole route', delay: meta.routeDelay ?? undefined }]
+                    }
+                    onChange={(id, delay) =>
+                      setMeta((m) =>
+                        id === 'route'
+                          ? { ...m, routeDelay: delay ?? null }
+                          : { ...m, route: { ...m.route, stops: m.route.stops.map((stop) => (stop.id === id ? { ...stop, delay } : stop)) } }
+                      )
+                    }
+                  />
+                </div>
+                <div className="lg:col-span-2">
+                  <TreatmentSettings
+                    vegetables={vegetables}
+                    zones={treatmentZones}
+                    assignments={meta.treatments ?? []}
+                    onChange={(treatments) => setMeta((m) => ({ ...m, treatments }))}
+                  />
+                </div>
+                <div className="lg:col-span-2">
+                  <PolicyProfileManager
+                    policies={policies}
+                    customPolicies={customPolicies}
+                    isBuiltIn={isBuiltInPolicy}
+                    selectedId={policy.id}
+                    onSelect={(policyProfileId) => setMeta((m) => ({ ...m, policyProfileId }))}
+                    onSave={savePolicy}
+                    onDelete={deletePolicy}
+                  />
+                </div>
               </div>
             )}
             {activeTab === 'analysis' && (
               <CompatibilityAnalysis
                 vegetables={vegetables}
-                bestTravelTime={meta.bestTravelTime}
-                onChangeBestTravelTime={(val) => setMeta((m) => ({ ...m, bestTravelTime: val }))}
-                routeDurationHours={meta.routeDurationHours}
-                ambientDeltaC={meta.ambientDeltaC}
+                routeDurationHours={routeDurationHours}
+                truckType={meta.truckType}
+                setpointC={meta.setpointC}
+                truckSize={meta.truckSize}
+                truckCount={meta.autoTruckQuantity ? undefined : meta.truckQuantity}
+                evaluation={evaluation}
+                onApplyMitigation={applyMitigation}
+                catalog={catalog}
+                onApplyResolution={applyResolution}
+                departurePlan={departurePlan}
               />
             )}
+            {activeTab === 'analysis' && vegetables.length > 0 && (
+              <DepartureExposureChart
+                plan={departurePlan}
+                regionName={region.name}
+                routeDurationHours={routeDurationHours}
+                onUseDeparture={(departure) => setMeta((m) => ({ ...m, departureTime: toLocalDateTimeInput(departure) }))}
+              />
+            )}
+            {activeTab === 'analysis' && (
+              <ShelfLifeAtArrival
+                vegetables={vegetables}
+                departureTime={meta.departureTime}
+                routeDurationHours={routeDurationHours}
+                minRemainingDays={meta.minRemainingShelfLifeDays}
+              />
+            )}
+            {activeTab === 'analysis' && vegetables.length > 0 && <RouteLegSummary legs={routeLegs} />}
+            {activeTab === 'analysis' && vegetables.length > 0 && (
+              <TripOutcomeSimulation outcome={delayOutcome} hasDelays={hasDelays} stopNames={routeLegs.map((leg) => leg.to)} />
+            )}
             {activeTab === 'layout' && (
-              <TruckVisualizer vegetables={vegetables} truckType={meta.truckType} truckSize={meta.truckSize} />
+              <TruckVisualizer vegetables={vegetables} truckType={meta.truckType} truckSize={meta.truckSize} evaluation={evaluation} />
             )}
             {activeTab === 'impact' && (
-              <ImpactMetrics vegetables={vegetables} unitPrice={100} />
+              <ImpactMetrics vegetables={vegetables} evaluation={evaluation} />
             )}
           </div>
         </div>